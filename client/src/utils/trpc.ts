@@ -1,10 +1,31 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpBatchStreamLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Session token issued by the `login` procedure
+const authHeaders = () => {
+  const token = localStorage.getItem('session_token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Procedures that return an async generator need the streaming link to be read chunk by chunk
+const streamingProcedures = new Set(['streamExamResultsCSV']);
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => streamingProcedures.has(op.path),
+      true: httpBatchStreamLink({
+        url: '/api',
+        transformer: superjson,
+        headers: authHeaders,
+      }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers: authHeaders,
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
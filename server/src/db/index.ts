@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// The database or an open transaction, for queries that may have to run inside one
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
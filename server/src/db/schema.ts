@@ -1,9 +1,31 @@
-import { serial, text, pgTable, timestamp, integer, boolean, json, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, integer, boolean, json, pgEnum, unique, real } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enum definitions
 export const userRoleEnum = pgEnum('user_role', ['admin', 'peserta']);
 export const examStatusEnum = pgEnum('exam_status', ['aktif', 'non-aktif']);
+export const submitReasonEnum = pgEnum('submit_reason', ['submitted', 'auto_submitted']);
+export const scorePolicyEnum = pgEnum('score_policy', ['highest', 'latest', 'average']);
+export const difficultyEnum = pgEnum('difficulty', ['mudah', 'sedang', 'sulit']);
+export const drawStrataEnum = pgEnum('draw_strata', ['topik', 'kesulitan']);
+export const passStatusEnum = pgEnum('pass_status', ['lulus', 'tidak_lulus']);
+export const questionTypeEnum = pgEnum('question_type', [
+  'multiple_choice',
+  'multiple_answer',
+  'true_false',
+  'short_answer',
+  'numeric',
+  'matching',
+  'ordering',
+  'essay'
+]);
+
+// Classes table (kelas as a first-class entity, e.g. "XII IPA 1")
+export const classesTable = pgTable('classes', {
+  id: serial('id').primaryKey(),
+  nama: text('nama').notNull().unique(), // Canonical name, see normalizeClassName
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -12,7 +34,9 @@ export const usersTable = pgTable('users', {
   email: text('email').notNull().unique(),
   password: text('password').notNull(),
   role: userRoleEnum('role').notNull(),
-  kelas: text('kelas'), // Nullable by default, optional for admin
+  kelas: text('kelas'), // Legacy free-text class, superseded by class_id and cleared by the class migration
+  class_id: integer('class_id').references(() => classesTable.id, { onDelete: 'set null' }), // Nullable, admins have no class
+  must_change_password: boolean('must_change_password').notNull().default(false), // Set when an admin chooses the password
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -25,16 +49,83 @@ export const examsTable = pgTable('exams', {
   tanggal_selesai: timestamp('tanggal_selesai').notNull(),
   durasi: integer('durasi').notNull(), // Duration in minutes
   status: examStatusEnum('status').notNull(),
+  max_attempts: integer('max_attempts').notNull().default(1),
+  retake_cooldown_minutes: integer('retake_cooldown_minutes').notNull().default(0), // Wait after a submitted attempt
+  score_policy: scorePolicyEnum('score_policy').notNull().default('highest'), // Which attempt counts in results
+  shuffle_questions: boolean('shuffle_questions').notNull().default(false), // Per-attempt question order
+  shuffle_options: boolean('shuffle_options').notNull().default(false), // Per-attempt option order
+  draw_count: integer('draw_count'), // Nullable, questions drawn per attempt from the exam's pool; null uses all
+  draw_stratify_by: drawStrataEnum('draw_stratify_by'), // Nullable, keeps the pool's topic or difficulty mix in each draw
+  kkm: integer('kkm'), // Nullable, passing score (KKM) on the 0-100 nilai scale; null when the exam has no pass mark
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Exam assignments table (who may take an exam: whole classes, single participants, or exclusions)
+export const examAssignmentsTable = pgTable('exam_assignments', {
+  id: serial('id').primaryKey(),
+  exam_id: integer('exam_id').references(() => examsTable.id, { onDelete: 'cascade' }).notNull(),
+  class_id: integer('class_id').references(() => classesTable.id, { onDelete: 'cascade' }), // Set for class assignments
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }), // Set for individual assignments and exclusions
+  excluded: boolean('excluded').notNull().default(false), // Only on user rows: removes the user even if their class is assigned
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Subjects table (mata pelajaran), groups the question bank
+export const subjectsTable = pgTable('subjects', {
+  id: serial('id').primaryKey(),
+  nama: text('nama').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Bank questions table (reusable questions, independent of any exam)
+export const bankQuestionsTable = pgTable('bank_questions', {
+  id: serial('id').primaryKey(),
+  subject_id: integer('subject_id').references(() => subjectsTable.id).notNull(),
+  topik: text('topik'), // Nullable
+  kesulitan: difficultyEnum('kesulitan'), // Nullable
+  tags: text('tags').array().notNull().default([]),
+  current_version: integer('current_version').notNull().default(1),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Bank question versions table (immutable content; an edit adds a version)
+export const bankQuestionVersionsTable = pgTable('bank_question_versions', {
+  id: serial('id').primaryKey(),
+  bank_question_id: integer('bank_question_id').references(() => bankQuestionsTable.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(),
+  // The same content columns as questions, copied as they are into an exam
+  tipe: questionTypeEnum('tipe').notNull().default('multiple_choice'),
+  soal: text('soal').notNull(),
+  pilihan: json('pilihan').notNull(),
+  jawaban_benar: text('jawaban_benar'),
+  pasangan: json('pasangan'),
+  kunci_jawaban: json('kunci_jawaban'),
+  poin: real('poin').notNull().default(1),
+  poin_salah: real('poin_salah').notNull().default(0),
+  jawaban_alternatif: json('jawaban_alternatif'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.bank_question_id, table.version),
+]);
+
 // Questions table
 export const questionsTable = pgTable('questions', {
   id: serial('id').primaryKey(),
   exam_id: integer('exam_id').references(() => examsTable.id).notNull(),
+  tipe: questionTypeEnum('tipe').notNull().default('multiple_choice'),
   soal: text('soal').notNull(),
-  pilihan: json('pilihan').notNull(), // Array of strings: A, B, C, D
-  jawaban_benar: text('jawaban_benar').notNull(), // Correct answer (A/B/C/D)
+  pilihan: json('pilihan').notNull(), // Array of strings: options, items in the correct order, or the left side of a matching question
+  jawaban_benar: text('jawaban_benar'), // Letter key (A-H, comma separated for multiple_answer); null for types keyed otherwise
+  pasangan: json('pasangan'), // Array of strings for matching: the right side, pasangan[i] matches pilihan[i]
+  kunci_jawaban: json('kunci_jawaban'), // Answer key for short_answer and numeric questions
+  poin: real('poin').notNull().default(1), // Points for a fully correct answer
+  poin_salah: real('poin_salah').notNull().default(0), // Points deducted for a wrong answer (negative marking)
+  jawaban_alternatif: json('jawaban_alternatif'), // Nullable, more letters accepted as correct, e.g. after a flawed key
+  dibatalkan: boolean('dibatalkan').notNull().default(false), // Voided: everyone gets full points
+  topik: text('topik'), // Nullable, used for stratified draws
+  kesulitan: difficultyEnum('kesulitan'), // Nullable, used for stratified draws
+  bank_version_id: integer('bank_version_id').references(() => bankQuestionVersionsTable.id, { onDelete: 'set null' }), // Nullable, the bank version this question was copied from
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -43,22 +134,121 @@ export const answersTable = pgTable('answers', {
   id: serial('id').primaryKey(),
   exam_id: integer('exam_id').references(() => examsTable.id).notNull(),
   user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  attempt_number: integer('attempt_number').notNull().default(1), // 1 for the first attempt, counting up per user and exam
   jawaban: json('jawaban').notNull(), // JSON object: {question_id: answer_choice}
-  nilai: integer('nilai').notNull().default(0), // Automatically calculated score
+  nilai: integer('nilai').notNull().default(0), // Automatically calculated score, percent of poin_maksimal
+  poin: real('poin').notNull().default(0), // Raw points earned
+  poin_maksimal: real('poin_maksimal').notNull().default(0), // Points available in this attempt's questions
   waktu_submit: timestamp('waktu_submit').notNull(),
   is_submitted: boolean('is_submitted').notNull().default(false),
   progress_jawaban: json('progress_jawaban'), // JSON object for autosave, nullable
+  started_at: timestamp('started_at').defaultNow().notNull(),
+  deadline_at: timestamp('deadline_at'), // Nullable for attempts started before the timer was enforced
+  submit_reason: submitReasonEnum('submit_reason'), // Nullable, set when the attempt is submitted
+  question_order: json('question_order'), // Question ids as shown to this attempt, null for older attempts
+  option_order: json('option_order'), // {question_id: original option index per displayed position}
+  pending_grading: boolean('pending_grading').notNull().default(false), // Submitted with essay responses not graded yet
+  status_kelulusan: passStatusEnum('status_kelulusan'), // Nullable, set on submit when the exam has a KKM and nilai is final
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.exam_id, table.user_id, table.attempt_number),
+]);
+
+// Regrade logs table (one row per attempt whose score a regrade changed)
+export const regradeLogsTable = pgTable('regrade_logs', {
+  id: serial('id').primaryKey(),
+  exam_id: integer('exam_id').references(() => examsTable.id, { onDelete: 'cascade' }).notNull(),
+  answer_id: integer('answer_id').references(() => answersTable.id, { onDelete: 'cascade' }).notNull(),
+  nilai_lama: integer('nilai_lama').notNull(),
+  nilai_baru: integer('nilai_baru').notNull(),
+  poin_lama: real('poin_lama').notNull(),
+  poin_baru: real('poin_baru').notNull(),
+  alasan: text('alasan'), // Nullable, why the exam was regraded
+  regraded_by: integer('regraded_by').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Essay grades table (points awarded by hand to one essay response of an attempt)
+export const essayGradesTable = pgTable('essay_grades', {
+  id: serial('id').primaryKey(),
+  answer_id: integer('answer_id').references(() => answersTable.id, { onDelete: 'cascade' }).notNull(),
+  question_id: integer('question_id').references(() => questionsTable.id, { onDelete: 'cascade' }).notNull(),
+  poin: real('poin').notNull(),
+  feedback: text('feedback'), // Nullable
+  graded_by: integer('graded_by').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable once the grader is deleted
+  graded_at: timestamp('graded_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.answer_id, table.question_id),
+]);
+
+// Sessions table
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the opaque token, never the token itself
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'), // Nullable, set on logout or refresh
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Login attempts table (history of every login attempt, kept for admin review)
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable, unknown emails have no user
+  ip_address: text('ip_address'), // Nullable when the address cannot be determined
+  success: boolean('success').notNull(),
+  reason: text('reason'), // Failure reason: invalid_credentials or locked, null on success
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Password reset tokens table (one-time tokens for self-service account recovery)
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the emailed token
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable, set once the token has been redeemed
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
 // Define relations
-export const usersRelations = relations(usersTable, ({ many }) => ({
+export const classesRelations = relations(classesTable, ({ many }) => ({
+  users: many(usersTable),
+  examAssignments: many(examAssignmentsTable),
+}));
+
+export const usersRelations = relations(usersTable, ({ one, many }) => ({
+  class: one(classesTable, {
+    fields: [usersTable.class_id],
+    references: [classesTable.id],
+  }),
   answers: many(answersTable),
+  examAssignments: many(examAssignmentsTable),
+  sessions: many(sessionsTable),
+  loginAttempts: many(loginAttemptsTable),
+  passwordResetTokens: many(passwordResetTokensTable),
 }));
 
 export const examsRelations = relations(examsTable, ({ many }) => ({
   questions: many(questionsTable),
   answers: many(answersTable),
+  assignments: many(examAssignmentsTable),
+}));
+
+export const examAssignmentsRelations = relations(examAssignmentsTable, ({ one }) => ({
+  exam: one(examsTable, {
+    fields: [examAssignmentsTable.exam_id],
+    references: [examsTable.id],
+  }),
+  class: one(classesTable, {
+    fields: [examAssignmentsTable.class_id],
+    references: [classesTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [examAssignmentsTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 export const questionsRelations = relations(questionsTable, ({ one }) => ({
@@ -66,9 +256,33 @@ export const questionsRelations = relations(questionsTable, ({ one }) => ({
     fields: [questionsTable.exam_id],
     references: [examsTable.id],
   }),
+  bankVersion: one(bankQuestionVersionsTable, {
+    fields: [questionsTable.bank_version_id],
+    references: [bankQuestionVersionsTable.id],
+  }),
+}));
+
+export const subjectsRelations = relations(subjectsTable, ({ many }) => ({
+  bankQuestions: many(bankQuestionsTable),
+}));
+
+export const bankQuestionsRelations = relations(bankQuestionsTable, ({ one, many }) => ({
+  subject: one(subjectsTable, {
+    fields: [bankQuestionsTable.subject_id],
+    references: [subjectsTable.id],
+  }),
+  versions: many(bankQuestionVersionsTable),
 }));
 
-export const answersRelations = relations(answersTable, ({ one }) => ({
+export const bankQuestionVersionsRelations = relations(bankQuestionVersionsTable, ({ one, many }) => ({
+  bankQuestion: one(bankQuestionsTable, {
+    fields: [bankQuestionVersionsTable.bank_question_id],
+    references: [bankQuestionsTable.id],
+  }),
+  examQuestions: many(questionsTable),
+}));
+
+export const answersRelations = relations(answersTable, ({ one, many }) => ({
   user: one(usersTable, {
     fields: [answersTable.user_id],
     references: [usersTable.id],
@@ -77,32 +291,134 @@ export const answersRelations = relations(answersTable, ({ one }) => ({
     fields: [answersTable.exam_id],
     references: [examsTable.id],
   }),
+  essayGrades: many(essayGradesTable),
+}));
+
+export const regradeLogsRelations = relations(regradeLogsTable, ({ one }) => ({
+  exam: one(examsTable, {
+    fields: [regradeLogsTable.exam_id],
+    references: [examsTable.id],
+  }),
+  answer: one(answersTable, {
+    fields: [regradeLogsTable.answer_id],
+    references: [answersTable.id],
+  }),
+  regrader: one(usersTable, {
+    fields: [regradeLogsTable.regraded_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const essayGradesRelations = relations(essayGradesTable, ({ one }) => ({
+  answer: one(answersTable, {
+    fields: [essayGradesTable.answer_id],
+    references: [answersTable.id],
+  }),
+  question: one(questionsTable, {
+    fields: [essayGradesTable.question_id],
+    references: [questionsTable.id],
+  }),
+  grader: one(usersTable, {
+    fields: [essayGradesTable.graded_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 // TypeScript types for the table schemas
+export type Class = typeof classesTable.$inferSelect;
+export type NewClass = typeof classesTable.$inferInsert;
+
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
 export type Exam = typeof examsTable.$inferSelect;
 export type NewExam = typeof examsTable.$inferInsert;
 
+export type ExamAssignment = typeof examAssignmentsTable.$inferSelect;
+export type NewExamAssignment = typeof examAssignmentsTable.$inferInsert;
+
+export type Subject = typeof subjectsTable.$inferSelect;
+export type NewSubject = typeof subjectsTable.$inferInsert;
+
+export type BankQuestion = typeof bankQuestionsTable.$inferSelect;
+export type NewBankQuestion = typeof bankQuestionsTable.$inferInsert;
+
+export type BankQuestionVersion = typeof bankQuestionVersionsTable.$inferSelect;
+export type NewBankQuestionVersion = typeof bankQuestionVersionsTable.$inferInsert;
+
 export type Question = typeof questionsTable.$inferSelect;
 export type NewQuestion = typeof questionsTable.$inferInsert;
 
 export type Answer = typeof answersTable.$inferSelect;
 export type NewAnswer = typeof answersTable.$inferInsert;
 
+export type RegradeLog = typeof regradeLogsTable.$inferSelect;
+export type NewRegradeLog = typeof regradeLogsTable.$inferInsert;
+
+export type EssayGrade = typeof essayGradesTable.$inferSelect;
+export type NewEssayGrade = typeof essayGradesTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
+  classes: classesTable,
   users: usersTable,
   exams: examsTable,
+  examAssignments: examAssignmentsTable,
+  subjects: subjectsTable,
+  bankQuestions: bankQuestionsTable,
+  bankQuestionVersions: bankQuestionVersionsTable,
   questions: questionsTable,
   answers: answersTable,
+  essayGrades: essayGradesTable,
+  regradeLogs: regradeLogsTable,
+  sessions: sessionsTable,
+  loginAttempts: loginAttemptsTable,
+  passwordResetTokens: passwordResetTokensTable,
 };
 
 export const tableRelations = {
+  classesRelations,
   usersRelations,
   examsRelations,
+  examAssignmentsRelations,
+  subjectsRelations,
+  bankQuestionsRelations,
+  bankQuestionVersionsRelations,
   questionsRelations,
   answersRelations,
+  essayGradesRelations,
+  regradeLogsRelations,
+  sessionsRelations,
+  loginAttemptsRelations,
+  passwordResetTokensRelations,
 };
\ No newline at end of file
@@ -1,33 +1,61 @@
-import { db } from '../db';
-import { answersTable, questionsTable, usersTable, examsTable } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { answersTable, questionsTable, usersTable, examsTable, essayGradesTable } from '../db/schema';
+import { eq, and, or, lt, isNull, asc, desc } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
 import { 
     type CreateAnswerInput, 
     type UpdateProgressInput, 
     type SubmitExamInput, 
     type Answer, 
-    type GetUserAnswerInput 
+    type GetUserAnswerInput,
+    type GetAttemptStatusInput,
+    type AttemptStatus,
+    type AutoSubmitResult,
+    type AnswerValue,
+    type PassStatus
 } from '../schema';
+import { isExamAssignedToUser } from './exam-assignments';
+import { buildAttemptLayout, getAttemptLayout, getOptionOrder, type AttemptLayout } from '../helpers/attempt-layout';
+import { gradeAnswer, passStatus } from '../helpers/grading';
+import { readIntEnv } from '../helpers/env';
 
-export async function createAnswer(input: CreateAnswerInput): Promise<Answer> {
-    try {
-        // Check if answer already exists for this user and exam
-        const existingAnswer = await db.select()
-            .from(answersTable)
-            .where(and(
-                eq(answersTable.user_id, input.user_id),
-                eq(answersTable.exam_id, input.exam_id)
-            ))
-            .execute();
+// Progress saves and submissions arriving this many seconds after the deadline are still
+// accepted, so a submit sent at the last second is not lost to network latency
+const DEADLINE_GRACE_SECONDS = readIntEnv('EXAM_DEADLINE_GRACE_SECONDS', 30, 0);
 
-        if (existingAnswer.length > 0) {
-            throw new Error('Answer record already exists for this user and exam');
-        }
+// An attempt ends after durasi minutes, but never later than the exam window itself
+export function computeDeadline(startedAt: Date, exam: { durasi: number; tanggal_selesai: Date }): Date {
+    const byDuration = new Date(startedAt.getTime() + exam.durasi * 60 * 1000);
+    return byDuration < exam.tanggal_selesai ? byDuration : exam.tanggal_selesai;
+}
+
+// Casts the JSON columns of an answer row back to their shapes
+function toAnswer(answer: typeof answersTable.$inferSelect): Answer {
+    return {
+        ...answer,
+        jawaban: answer.jawaban as Record<string, AnswerValue>,
+        progress_jawaban: answer.progress_jawaban as Record<string, AnswerValue> | null,
+        question_order: answer.question_order as number[] | null,
+        option_order: answer.option_order as Record<string, number[]> | null
+    };
+}
+
+function isPastDeadline(answer: { deadline_at: Date | null }, now: Date): boolean {
+    return answer.deadline_at !== null
+        && now.getTime() > answer.deadline_at.getTime() + DEADLINE_GRACE_SECONDS * 1000;
+}
+
+// Postgres reports a unique constraint violation with SQLSTATE 23505
+function isUniqueViolation(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === '23505';
+}
 
+export async function createAnswer(input: CreateAnswerInput, userId: number): Promise<Answer> {
+    try {
         // Verify user and exam exist
         const user = await db.select()
             .from(usersTable)
-            .where(eq(usersTable.id, input.user_id))
+            .where(eq(usersTable.id, userId))
             .execute();
 
         if (user.length === 0) {
@@ -43,26 +71,96 @@ export async function createAnswer(input: CreateAnswerInput): Promise<Answer> {
             throw new Error('Exam not found');
         }
 
-        // Create answer record
-        const result = await db.insert(answersTable)
-            .values({
-                exam_id: input.exam_id,
-                user_id: input.user_id,
-                jawaban: input.jawaban,
-                nilai: 0, // Will be calculated on submit
-                waktu_submit: new Date(), // Default timestamp
-                is_submitted: input.is_submitted || false,
-                progress_jawaban: input.progress_jawaban || null
+        if (!(await isExamAssignedToUser(input.exam_id, userId))) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'Exam is not assigned to this user' });
+        }
+
+        const now = new Date();
+        if (exam[0].status !== 'aktif' || now < exam[0].tanggal_mulai || now > exam[0].tanggal_selesai) {
+            throw new Error('Exam is not open');
+        }
+
+        // Earlier attempts decide whether a retake is allowed yet
+        const previousAttempts = await db.select()
+            .from(answersTable)
+            .where(and(
+                eq(answersTable.user_id, userId),
+                eq(answersTable.exam_id, input.exam_id)
+            ))
+            .orderBy(desc(answersTable.attempt_number))
+            .execute();
+
+        if (previousAttempts.some(attempt => !attempt.is_submitted)) {
+            throw new Error('An attempt for this exam is already in progress');
+        }
+
+        if (previousAttempts.length >= exam[0].max_attempts) {
+            throw new Error('Maximum number of attempts reached for this exam');
+        }
+
+        if (previousAttempts.length > 0) {
+            const retakeAt = new Date(previousAttempts[0].waktu_submit.getTime() + exam[0].retake_cooldown_minutes * 60 * 1000);
+            if (now < retakeAt) {
+                throw new Error(`Next attempt is available after ${retakeAt.toISOString()}`);
+            }
+        }
+
+        const questions = await db.select({
+                id: questionsTable.id,
+                tipe: questionsTable.tipe,
+                pilihan: questionsTable.pilihan,
+                topik: questionsTable.topik,
+                kesulitan: questionsTable.kesulitan
             })
-            .returning()
+            .from(questionsTable)
+            .where(eq(questionsTable.exam_id, input.exam_id))
+            .orderBy(asc(questionsTable.id))
             .execute();
 
-        const answer = result[0];
-        return {
-            ...answer,
-            jawaban: answer.jawaban as Record<string, string>,
-            progress_jawaban: answer.progress_jawaban as Record<string, string> | null
-        };
+        // The attempt and its layout are written together, so no attempt is ever seen without one
+        let created: typeof answersTable.$inferSelect;
+        try {
+            created = await db.transaction(async (tx) => {
+                // Create answer record; the timer starts now. An attempt always starts unsubmitted.
+                const result = await tx.insert(answersTable)
+                    .values({
+                        exam_id: input.exam_id,
+                        user_id: userId,
+                        attempt_number: previousAttempts.length + 1,
+                        jawaban: input.jawaban,
+                        nilai: 0, // Will be calculated on submit
+                        waktu_submit: new Date(), // Default timestamp
+                        is_submitted: false,
+                        progress_jawaban: input.progress_jawaban || null,
+                        started_at: now,
+                        deadline_at: computeDeadline(now, exam[0])
+                    })
+                    .returning()
+                    .execute();
+
+                // Freeze the drawn questions and their order for this attempt, seeded from its id
+                const layout = buildAttemptLayout(result[0].id, exam[0], questions);
+
+                const withLayout = await tx.update(answersTable)
+                    .set({
+                        question_order: layout.questionOrder,
+                        option_order: layout.optionOrder
+                    })
+                    .where(eq(answersTable.id, result[0].id))
+                    .returning()
+                    .execute();
+
+                return withLayout[0];
+            });
+        } catch (error) {
+            // A concurrent start took this attempt number first; the checks above passed for both
+            if (isUniqueViolation(error)) {
+                throw new TRPCError({ code: 'CONFLICT', message: 'An attempt for this exam was started at the same time' });
+            }
+            throw error;
+        }
+
+        return toAnswer(created);
     } catch (error) {
         console.error('Answer creation failed:', error);
         throw error;
@@ -77,25 +175,22 @@ export async function getUserAnswer(input: GetUserAnswerInput): Promise<Answer |
                 eq(answersTable.user_id, input.userId),
                 eq(answersTable.exam_id, input.examId)
             ))
+            .orderBy(desc(answersTable.attempt_number)) // Latest attempt
+            .limit(1)
             .execute();
 
         if (results.length === 0) {
             return null;
         }
 
-        const answer = results[0];
-        return {
-            ...answer,
-            jawaban: answer.jawaban as Record<string, string>,
-            progress_jawaban: answer.progress_jawaban as Record<string, string> | null
-        };
+        return toAnswer(results[0]);
     } catch (error) {
         console.error('Get user answer failed:', error);
         throw error;
     }
 }
 
-export async function updateProgress(input: UpdateProgressInput): Promise<Answer> {
+export async function updateProgress(input: UpdateProgressInput, userId: number): Promise<Answer> {
     try {
         // Verify answer exists
         const existingAnswer = await db.select()
@@ -107,10 +202,18 @@ export async function updateProgress(input: UpdateProgressInput): Promise<Answer
             throw new Error('Answer record not found');
         }
 
+        if (existingAnswer[0].user_id !== userId) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'Answer record belongs to another user' });
+        }
+
         if (existingAnswer[0].is_submitted) {
             throw new Error('Cannot update progress for submitted exam');
         }
 
+        if (isPastDeadline(existingAnswer[0], new Date())) {
+            throw new Error('Time is up for this attempt');
+        }
+
         // Update progress
         const result = await db.update(answersTable)
             .set({
@@ -120,19 +223,14 @@ export async function updateProgress(input: UpdateProgressInput): Promise<Answer
             .returning()
             .execute();
 
-        const answer = result[0];
-        return {
-            ...answer,
-            jawaban: answer.jawaban as Record<string, string>,
-            progress_jawaban: answer.progress_jawaban as Record<string, string> | null
-        };
+        return toAnswer(result[0]);
     } catch (error) {
         console.error('Update progress failed:', error);
         throw error;
     }
 }
 
-export async function submitExam(input: SubmitExamInput): Promise<Answer> {
+export async function submitExam(input: SubmitExamInput, userId: number): Promise<Answer> {
     try {
         // Verify answer exists
         const existingAnswer = await db.select()
@@ -144,68 +242,269 @@ export async function submitExam(input: SubmitExamInput): Promise<Answer> {
             throw new Error('Answer record not found');
         }
 
+        if (existingAnswer[0].user_id !== userId) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'Answer record belongs to another user' });
+        }
+
         if (existingAnswer[0].is_submitted) {
             throw new Error('Exam has already been submitted');
         }
 
+        if (isPastDeadline(existingAnswer[0], new Date())) {
+            throw new Error('Time is up for this attempt');
+        }
+
         // Calculate score
-        const score = await calculateScore(existingAnswer[0].exam_id, input.jawaban);
+        const score = await scoreAttempt(existingAnswer[0], input.jawaban);
 
-        // Update answer with final submission
+        // Update answer with final submission, unless another request or the sweep got there first
         const result = await db.update(answersTable)
             .set({
                 jawaban: input.jawaban,
-                nilai: score,
+                ...score,
                 is_submitted: true,
-                waktu_submit: new Date()
+                waktu_submit: new Date(),
+                submit_reason: 'submitted'
             })
-            .where(eq(answersTable.id, input.id))
+            .where(and(
+                eq(answersTable.id, input.id),
+                eq(answersTable.is_submitted, false)
+            ))
             .returning()
             .execute();
 
-        const answer = result[0];
+        if (result.length === 0) {
+            throw new Error('Exam has already been submitted');
+        }
+
+        return toAnswer(result[0]);
+    } catch (error) {
+        console.error('Submit exam failed:', error);
+        throw error;
+    }
+}
+
+export async function getAttemptStatus(input: GetAttemptStatusInput, userId: number): Promise<AttemptStatus> {
+    try {
+        const existingAnswer = await db.select()
+            .from(answersTable)
+            .where(eq(answersTable.id, input.id))
+            .execute();
+
+        if (existingAnswer.length === 0) {
+            throw new Error('Answer record not found');
+        }
+
+        const answer = existingAnswer[0];
+        if (answer.user_id !== userId) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'Answer record belongs to another user' });
+        }
+
+        const now = new Date();
+        const remainingSeconds = answer.deadline_at === null
+            ? null
+            : Math.max(0, Math.floor((answer.deadline_at.getTime() - now.getTime()) / 1000));
+
         return {
-            ...answer,
-            jawaban: answer.jawaban as Record<string, string>,
-            progress_jawaban: answer.progress_jawaban as Record<string, string> | null
+            answerId: answer.id,
+            examId: answer.exam_id,
+            startedAt: answer.started_at,
+            deadline: answer.deadline_at,
+            serverTime: now,
+            remainingSeconds,
+            isSubmitted: answer.is_submitted,
+            isExpired: answer.deadline_at !== null && now >= answer.deadline_at
         };
     } catch (error) {
-        console.error('Submit exam failed:', error);
+        console.error('Get attempt status failed:', error);
+        throw error;
+    }
+}
+
+// Scores and submits every unsubmitted attempt whose deadline (plus grace) has passed, using the
+// latest autosaved answers. Attempts without a recorded deadline end with the exam window.
+export async function autoSubmitExpiredAttempts(now: Date = new Date()): Promise<AutoSubmitResult> {
+    try {
+        const cutoff = new Date(now.getTime() - DEADLINE_GRACE_SECONDS * 1000);
+
+        const expired = await db.select({ answer: answersTable })
+            .from(answersTable)
+            .innerJoin(examsTable, eq(answersTable.exam_id, examsTable.id))
+            .where(and(
+                eq(answersTable.is_submitted, false),
+                or(
+                    lt(answersTable.deadline_at, cutoff),
+                    and(isNull(answersTable.deadline_at), lt(examsTable.tanggal_selesai, cutoff))
+                )
+            ))
+            .execute();
+
+        const answerIds: number[] = [];
+        for (const { answer } of expired) {
+            const jawaban = (answer.progress_jawaban ?? answer.jawaban) as Record<string, AnswerValue>;
+            const score = await scoreAttempt(answer, jawaban);
+
+            // Skip attempts the participant submitted while this sweep was running
+            const result = await db.update(answersTable)
+                .set({
+                    jawaban,
+                    ...score,
+                    is_submitted: true,
+                    waktu_submit: now,
+                    submit_reason: 'auto_submitted'
+                })
+                .where(and(
+                    eq(answersTable.id, answer.id),
+                    eq(answersTable.is_submitted, false)
+                ))
+                .returning({ id: answersTable.id })
+                .execute();
+
+            if (result.length > 0) {
+                answerIds.push(answer.id);
+            }
+        }
+
+        return { submittedCount: answerIds.length, answerIds };
+    } catch (error) {
+        console.error('Auto-submit of expired attempts failed:', error);
         throw error;
     }
 }
 
-export async function calculateScore(examId: number, userAnswers: Record<string, string>): Promise<number> {
+// Raw points with the percentage they make, as stored on the answer row
+export interface AttemptScore {
+    poin: number;
+    poin_maksimal: number;
+    nilai: number;
+}
+
+// Points are kept to two decimals; partial credit on a 3-point question would otherwise drift
+const roundPoints = (value: number): number => Math.round(value * 100) / 100;
+
+// Answers use the letters the attempt saw; with a layout they are mapped back to the stored
+// options and only the attempt's own questions count. A question earns its poin times the credit
+// from gradeAnswer; an answered question that earns nothing costs its poin_salah. Essays earn the
+// points awarded to them by hand and are never penalised. A voided question gives everyone its
+// full poin, answered or not. The total never drops below zero. Inside a transaction, pass it as
+// the executor so the questions are read on the same connection.
+export async function calculatePoints(
+    examId: number,
+    userAnswers: Record<string, AnswerValue>,
+    layout: AttemptLayout | null = null,
+    essayPoints: Record<string, number> = {},
+    executor: DbExecutor = db
+): Promise<AttemptScore> {
     try {
         // Get all questions for the exam
-        const questions = await db.select()
+        const allQuestions = await executor.select()
             .from(questionsTable)
             .where(eq(questionsTable.exam_id, examId))
             .execute();
 
-        if (questions.length === 0) {
-            return 0;
-        }
+        const questions = layout
+            ? allQuestions.filter(question => layout.questionOrder.includes(question.id))
+            : allQuestions;
 
-        let correctAnswers = 0;
-        
-        // Compare user answers with correct answers
+        let poin = 0;
+        let poinMaksimal = 0;
         for (const question of questions) {
             const userAnswer = userAnswers[question.id.toString()];
-            if (userAnswer && userAnswer === question.jawaban_benar) {
-                correctAnswers++;
+            poinMaksimal += question.poin;
+
+            if (question.dibatalkan) {
+                poin += question.poin;
+                continue;
+            }
+
+            if (question.tipe === 'essay') {
+                poin += Math.min(essayPoints[question.id.toString()] ?? 0, question.poin);
+                continue;
             }
+
+            const credit = gradeAnswer(question, userAnswer, getOptionOrder(layout, question));
+            const answered = userAnswer !== undefined && (Array.isArray(userAnswer) ? userAnswer.length > 0 : userAnswer.trim() !== '');
+            poin += credit > 0 ? credit * question.poin : answered ? -question.poin_salah : 0;
         }
 
-        // Calculate percentage score
-        const score = Math.round((correctAnswers / questions.length) * 100);
-        return score;
+        poin = roundPoints(Math.max(0, poin));
+        poinMaksimal = roundPoints(poinMaksimal);
+
+        return {
+            poin,
+            poin_maksimal: poinMaksimal,
+            nilai: poinMaksimal > 0 ? Math.round((poin / poinMaksimal) * 100) : 0
+        };
+    } catch (error) {
+        console.error('Calculate points failed:', error);
+        throw error;
+    }
+}
+
+// Percentage score of a set of answers (see calculatePoints)
+export async function calculateScore(
+    examId: number,
+    userAnswers: Record<string, AnswerValue>,
+    layout: AttemptLayout | null = null,
+    essayPoints: Record<string, number> = {}
+): Promise<number> {
+    try {
+        return (await calculatePoints(examId, userAnswers, layout, essayPoints)).nilai;
     } catch (error) {
         console.error('Calculate score failed:', error);
         throw error;
     }
 }
 
+// Blank essay responses score nothing and need no grader
+export function isEssayAnswered(answer: AnswerValue | undefined): boolean {
+    return typeof answer === 'string' && answer.trim() !== '';
+}
+
+// Scores a submitted attempt including the essay points awarded so far. The attempt stays
+// pending, without a pass/fail status, while one of its answered essays has no grade. Callers
+// inside a transaction pass it as the executor (see calculatePoints).
+export async function scoreAttempt(
+    answer: { id: number; exam_id: number; question_order: unknown; option_order: unknown },
+    jawaban: Record<string, AnswerValue>,
+    executor: DbExecutor = db
+): Promise<AttemptScore & { pending_grading: boolean; status_kelulusan: PassStatus | null }> {
+    const layout = getAttemptLayout(answer);
+
+    const exam = await executor.select({ kkm: examsTable.kkm })
+        .from(examsTable)
+        .where(eq(examsTable.id, answer.exam_id))
+        .execute();
+
+    const essays = await executor.select({ id: questionsTable.id })
+        .from(questionsTable)
+        .where(and(
+            eq(questionsTable.exam_id, answer.exam_id),
+            eq(questionsTable.tipe, 'essay'),
+            eq(questionsTable.dibatalkan, false)
+        ))
+        .execute();
+
+    const grades = essays.length === 0 ? [] : await executor.select()
+        .from(essayGradesTable)
+        .where(eq(essayGradesTable.answer_id, answer.id))
+        .execute();
+    const essayPoints = Object.fromEntries(grades.map(grade => [grade.question_id.toString(), grade.poin]));
+
+    const pending_grading = essays.some(essay =>
+        (!layout || layout.questionOrder.includes(essay.id))
+        && isEssayAnswered(jawaban[essay.id.toString()])
+        && essayPoints[essay.id.toString()] === undefined
+    );
+
+    const score = await calculatePoints(answer.exam_id, jawaban, layout, essayPoints, executor);
+    return {
+        ...score,
+        pending_grading,
+        status_kelulusan: pending_grading ? null : passStatus(score.nilai, exam[0]?.kkm ?? null)
+    };
+}
+
 export async function getAnswersByExamId(examId: number): Promise<Answer[]> {
     try {
         // Verify exam exists
@@ -224,11 +523,7 @@ export async function getAnswersByExamId(examId: number): Promise<Answer[]> {
             .where(eq(answersTable.exam_id, examId))
             .execute();
 
-        return results.map(answer => ({
-            ...answer,
-            jawaban: answer.jawaban as Record<string, string>,
-            progress_jawaban: answer.progress_jawaban as Record<string, string> | null
-        }));
+        return results.map(toAnswer);
     } catch (error) {
         console.error('Get answers by exam ID failed:', error);
         throw error;
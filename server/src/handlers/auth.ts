@@ -1,52 +1,42 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
-import { createHash, randomBytes, pbkdf2Sync } from 'crypto';
+import { usersTable, classesTable, sessionsTable, loginAttemptsTable } from '../db/schema';
+import { 
+  type LoginInput, 
+  type LoginResponse, 
+  type UserProfile, 
+  type LoginAttempt, 
+  type GetLoginAttemptsInput 
+} from '../schema';
+import { eq, and, gt, isNull, desc, sql, SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { createHash, randomBytes } from 'crypto';
+import { hashPassword, verifyPassword, needsRehash } from '../helpers/password';
+import { readIntEnv } from '../helpers/env';
+import { userProfileColumns, getUserById } from './users';
+import { 
+  accountThrottleKey, 
+  ipThrottleKey, 
+  getLoginBlockedUntil, 
+  reserveLoginAttempt, 
+  recordLoginFailure, 
+  releaseLoginAttempt, 
+  clearLoginFailures 
+} from '../helpers/login-throttle';
 
-export async function hashPassword(password: string): Promise<string> {
-  try {
-    // Generate a random salt
-    const salt = randomBytes(32).toString('hex');
-    
-    // Use PBKDF2 to hash the password with the salt
-    const hash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-    
-    // Return salt and hash combined
-    return `${salt}:${hash}`;
-  } catch (error) {
-    console.error('Password hashing failed:', error);
-    throw error;
-  }
-}
+// Session lifetime in minutes, defaults to 12 hours (a full school day)
+const SESSION_TTL_MINUTES = readIntEnv('SESSION_TTL_MINUTES', 720);
 
-export async function verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
-  try {
-    // Split the stored hash to get salt and hash
-    const parts = hashedPassword.split(':');
-    if (parts.length !== 2) {
-      return false; // Invalid hash format
-    }
-    
-    const [salt, storedHash] = parts;
-    
-    // Hash the provided password with the same salt
-    const hash = pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-    
-    // Compare the hashes
-    return hash === storedHash;
-  } catch (error) {
-    console.error('Password verification failed:', error);
-    return false;
-  }
+// Only the SHA-256 of a session token is stored, so a leaked sessions table cannot be replayed
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
 }
 
-export async function loginUser(input: LoginInput): Promise<User | null> {
+export async function loginUser(input: LoginInput): Promise<UserProfile | null> {
   try {
-    // Find user by email
+    // Find user by email; the input is lower case, accounts from before that rule may not be
     const users = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, input.email))
+      .where(eq(sql`lower(${usersTable.email})`, input.email))
       .execute();
 
     if (users.length === 0) {
@@ -62,18 +52,208 @@ export async function loginUser(input: LoginInput): Promise<User | null> {
       return null; // Invalid password
     }
 
+    // Upgrade legacy or weaker hashes now that the plain password is known
+    if (needsRehash(user.password)) {
+      await db.update(usersTable)
+        .set({ password: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
     // Return user data (password excluded for security)
+    return await getUserById(user.id);
+  } catch (error) {
+    console.error('User login failed:', error);
+    throw error;
+  }
+}
+
+export async function createSession(user: UserProfile): Promise<LoginResponse> {
+  try {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000);
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashSessionToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
     return {
-      id: user.id,
-      nama: user.nama,
-      email: user.email,
-      password: user.password, // Note: In real apps, you'd exclude this
-      role: user.role,
-      kelas: user.kelas,
-      created_at: user.created_at
+      user,
+      token,
+      expires_at: expiresAt
     };
   } catch (error) {
-    console.error('User login failed:', error);
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+async function recordLoginAttempt(email: string, ipAddress: string | null, success: boolean, reason: string | null): Promise<void> {
+  const users = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(sql`lower(${usersTable.email})`, email))
+    .execute();
+
+  await db.insert(loginAttemptsTable)
+    .values({
+      email,
+      user_id: users.length > 0 ? users[0].id : null,
+      ip_address: ipAddress,
+      success,
+      reason
+    })
+    .execute();
+}
+
+export async function login(input: LoginInput, ipAddress: string | null = null): Promise<LoginResponse | null> {
+  try {
+    const keys = [accountThrottleKey(input.email)];
+    if (ipAddress) {
+      keys.push(ipThrottleKey(ipAddress));
+    }
+
+    // Blocked attempts are rejected before the password is even checked
+    const blockedUntil = await getLoginBlockedUntil(keys);
+    if (blockedUntil) {
+      await recordLoginAttempt(input.email, ipAddress, false, 'locked');
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many failed login attempts, try again after ${blockedUntil.toISOString()}`
+      });
+    }
+
+    // The attempt counts as a failure until the password checks out, so concurrent
+    // guesses cannot all get past the check above
+    const failures = await reserveLoginAttempt(keys);
+    if (!failures) {
+      await recordLoginAttempt(input.email, ipAddress, false, 'locked');
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: 'Too many failed login attempts, try again later'
+      });
+    }
+
+    const user = await loginUser(input);
+
+    if (!user) {
+      for (let i = 0; i < keys.length; i++) {
+        await recordLoginFailure(keys[i], failures[i]);
+      }
+      await recordLoginAttempt(input.email, ipAddress, false, 'invalid_credentials');
+      return null; // Invalid credentials
+    }
+
+    // Only the account counter resets; other accounts failing from the same address still count
+    await clearLoginFailures(accountThrottleKey(input.email));
+    if (ipAddress) {
+      await releaseLoginAttempt(ipThrottleKey(ipAddress));
+    }
+    await recordLoginAttempt(input.email, ipAddress, true, null);
+
+    return await createSession(user);
+  } catch (error) {
+    console.error('Login failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function unlockAccount(userId: number): Promise<void> {
+  try {
+    const users = await db.select({ email: usersTable.email })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    await clearLoginFailures(accountThrottleKey(users[0].email));
+  } catch (error) {
+    console.error('Account unlock failed:', error);
+    throw error;
+  }
+}
+
+export async function getLoginAttempts(input: GetLoginAttemptsInput): Promise<LoginAttempt[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.email !== undefined) {
+      conditions.push(eq(loginAttemptsTable.email, input.email));
+    }
+
+    const results = await db.select()
+      .from(loginAttemptsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loginAttemptsTable.created_at), desc(loginAttemptsTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch login attempts:', error);
+    throw error;
+  }
+}
+
+export async function getSessionUser(token: string): Promise<UserProfile | null> {
+  try {
+    // Only sessions that are neither revoked nor expired resolve to a user
+    const results = await db.select(userProfileColumns)
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
+      .where(and(
+        eq(sessionsTable.token_hash, hashSessionToken(token)),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return results[0];
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(token: string): Promise<void> {
+  try {
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.token_hash, hashSessionToken(token)),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function refreshSession(token: string): Promise<LoginResponse> {
+  try {
+    const user = await getSessionUser(token);
+
+    if (!user) {
+      throw new Error('Session is invalid or expired');
+    }
+
+    // Rotate the token: the old one stops working as soon as the new one is issued
+    await revokeSession(token);
+    return await createSession(user);
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
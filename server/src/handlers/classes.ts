@@ -0,0 +1,233 @@
+import { db } from '../db';
+import { classesTable, usersTable } from '../db/schema';
+import {
+  type Class,
+  type CreateClassInput,
+  type UpdateClassInput,
+  type AssignUsersToClassInput,
+  type MigrateLegacyKelasResult,
+  type UserProfile
+} from '../schema';
+import { eq, and, asc, inArray, isNull, isNotNull } from 'drizzle-orm';
+import { getUserById, userProfileColumns } from './users';
+
+const ROMAN_GRADES = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// Canonical class name: upper case, separators collapsed to single spaces and a numeric
+// grade written as on report cards, so "12 ipa-1" and "XII IPA 1" are the same class
+export function normalizeClassName(name: string): string {
+  const tokens = name.toUpperCase().replace(/[-_./]+/g, ' ').trim().split(/\s+/);
+
+  const grade = parseInt(tokens[0], 10);
+  if (String(grade) === tokens[0] && grade >= 1 && grade <= ROMAN_GRADES.length) {
+    tokens[0] = ROMAN_GRADES[grade - 1];
+  }
+
+  return tokens.join(' ');
+}
+
+export async function findClassByName(name: string): Promise<Class | null> {
+  const results = await db.select()
+    .from(classesTable)
+    .where(eq(classesTable.nama, normalizeClassName(name)))
+    .execute();
+
+  return results.length > 0 ? results[0] : null;
+}
+
+export async function createClass(input: CreateClassInput): Promise<Class> {
+  try {
+    const nama = normalizeClassName(input.nama);
+
+    if (await findClassByName(nama)) {
+      throw new Error(`Class ${nama} already exists`);
+    }
+
+    const result = await db.insert(classesTable)
+      .values({ nama })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Class creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getAllClasses(): Promise<Class[]> {
+  try {
+    return await db.select()
+      .from(classesTable)
+      .orderBy(asc(classesTable.nama))
+      .execute();
+  } catch (error) {
+    console.error('Get all classes failed:', error);
+    throw error;
+  }
+}
+
+export async function getClassById(id: number): Promise<Class | null> {
+  try {
+    const results = await db.select()
+      .from(classesTable)
+      .where(eq(classesTable.id, id))
+      .execute();
+
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Get class by ID failed:', error);
+    throw error;
+  }
+}
+
+export async function updateClass(input: UpdateClassInput): Promise<Class> {
+  try {
+    const nama = normalizeClassName(input.nama);
+
+    const existing = await findClassByName(nama);
+    if (existing && existing.id !== input.id) {
+      throw new Error(`Class ${nama} already exists`);
+    }
+
+    const result = await db.update(classesTable)
+      .set({ nama })
+      .where(eq(classesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Class not found');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Class update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteClass(id: number): Promise<void> {
+  try {
+    // Members keep their accounts; the foreign key clears their class_id
+    const result = await db.delete(classesTable)
+      .where(eq(classesTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Class not found');
+    }
+  } catch (error) {
+    console.error('Class deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getClassMembers(classId: number): Promise<UserProfile[]> {
+  try {
+    const results = await db.select(userProfileColumns)
+      .from(usersTable)
+      .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
+      .where(eq(usersTable.class_id, classId))
+      .orderBy(asc(usersTable.nama))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get class members failed:', error);
+    throw error;
+  }
+}
+
+export async function assignUsersToClass(input: AssignUsersToClassInput): Promise<UserProfile[]> {
+  try {
+    if (input.classId !== null && !(await getClassById(input.classId))) {
+      throw new Error('Class not found');
+    }
+
+    // Validate every id first so a bad id does not leave a half-applied move
+    const userIds = [...new Set(input.userIds)];
+    const participants = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(and(
+        inArray(usersTable.id, userIds),
+        eq(usersTable.role, 'peserta')
+      ))
+      .execute();
+
+    if (participants.length !== userIds.length) {
+      throw new Error('Some users were not found or are not participants');
+    }
+
+    await db.update(usersTable)
+      .set({ class_id: input.classId, kelas: null })
+      .where(inArray(usersTable.id, userIds))
+      .execute();
+
+    const users = await Promise.all(userIds.map(id => getUserById(id)));
+    return users.filter((user): user is UserProfile => user !== null);
+  } catch (error) {
+    console.error('Class assignment failed:', error);
+    throw error;
+  }
+}
+
+export async function migrateLegacyKelas(): Promise<MigrateLegacyKelasResult> {
+  try {
+    // Users that still only have the old free-text value
+    const legacyUsers = await db.select({ id: usersTable.id, kelas: usersTable.kelas })
+      .from(usersTable)
+      .where(and(
+        isNull(usersTable.class_id),
+        isNotNull(usersTable.kelas)
+      ))
+      .execute();
+
+    let classesCreated = 0;
+    let usersMigrated = 0;
+
+    await db.transaction(async (tx) => {
+      const classIds = new Map<string, number>();
+
+      for (const user of legacyUsers) {
+        if (!user.kelas || user.kelas.trim() === '') {
+          continue;
+        }
+
+        const nama = normalizeClassName(user.kelas);
+        let classId = classIds.get(nama);
+
+        if (classId === undefined) {
+          const existing = await tx.select()
+            .from(classesTable)
+            .where(eq(classesTable.nama, nama))
+            .execute();
+
+          if (existing.length > 0) {
+            classId = existing[0].id;
+          } else {
+            const created = await tx.insert(classesTable)
+              .values({ nama })
+              .returning()
+              .execute();
+            classId = created[0].id;
+            classesCreated++;
+          }
+          classIds.set(nama, classId);
+        }
+
+        await tx.update(usersTable)
+          .set({ class_id: classId, kelas: null })
+          .where(eq(usersTable.id, user.id))
+          .execute();
+        usersMigrated++;
+      }
+    });
+
+    return { classesCreated, usersMigrated };
+  } catch (error) {
+    console.error('Legacy kelas migration failed:', error);
+    throw error;
+  }
+}
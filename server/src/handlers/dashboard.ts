@@ -1,7 +1,110 @@
 import { db } from '../db';
-import { usersTable, examsTable, answersTable } from '../db/schema';
-import { type DashboardStats, type ExamResult, type GetExamResultsInput } from '../schema';
-import { eq, count, avg, and } from 'drizzle-orm';
+import { usersTable, examsTable, answersTable, classesTable, questionsTable, essayGradesTable } from '../db/schema';
+import {
+  type DashboardStats,
+  type ExamResult,
+  type GetExamResultsInput,
+  type GetExamStatisticsInput,
+  type ExamStatistics,
+  type GetClassReportInput,
+  type ClassReport,
+  type ParticipantReport,
+  type ExportExamResultsInput,
+  type AnswerValue
+} from '../schema';
+import { eq, and, count, asc, lt, inArray, sql, type SQL } from 'drizzle-orm';
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import { userKelasColumn, getUserById } from './users';
+import { examAssignedToUser } from './exam-assignments';
+import { isEssayAnswered } from './answers';
+import { gradeAnswer, passStatus } from '../helpers/grading';
+import { getAttemptLayout, getOptionOrder, toOriginalChoice } from '../helpers/attempt-layout';
+import { formatCSVRow } from '../helpers/csv';
+import { mean, median, modes, quantile, standardDeviation, histogram, roundStatistic } from '../helpers/statistics';
+
+// One row per attempt, before the exam's score policy is applied
+const attemptResultColumns = {
+  answer_id: answersTable.id,
+  user_id: answersTable.user_id,
+  user_nama: usersTable.nama,
+  user_kelas: userKelasColumn,
+  exam_id: answersTable.exam_id,
+  exam_judul: examsTable.judul_ujian,
+  nilai: answersTable.nilai,
+  poin: answersTable.poin,
+  poin_maksimal: answersTable.poin_maksimal,
+  waktu_submit: answersTable.waktu_submit,
+  is_submitted: answersTable.is_submitted,
+  pending_grading: answersTable.pending_grading,
+  attempt_number: answersTable.attempt_number,
+  score_policy: examsTable.score_policy,
+  kkm: examsTable.kkm
+};
+
+async function getResultsWithPolicy(condition?: SQL): Promise<ExamResult[]> {
+  const attempts = await db
+    .select(attemptResultColumns)
+    .from(answersTable)
+    .innerJoin(usersTable, eq(answersTable.user_id, usersTable.id))
+    .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
+    .innerJoin(examsTable, eq(answersTable.exam_id, examsTable.id))
+    .where(condition)
+    .orderBy(asc(answersTable.exam_id), asc(answersTable.user_id), asc(answersTable.attempt_number))
+    .execute();
+
+  const groups = new Map<string, typeof attempts>();
+  for (const attempt of attempts) {
+    const key = `${attempt.exam_id}:${attempt.user_id}`;
+    groups.set(key, [...(groups.get(key) ?? []), attempt]);
+  }
+
+  // Submitted attempts are combined per the exam's score policy; a participant without a
+  // submitted attempt is shown with their latest, unsubmitted one. While an attempt that counts
+  // awaits essay grading there is no score to show yet.
+  return [...groups.values()].map(group => {
+    const submitted = group.filter(attempt => attempt.is_submitted);
+    const candidates = submitted.length > 0 ? submitted : group;
+    let counted = candidates[candidates.length - 1];
+    let nilai: number | null = counted.nilai;
+    let poin: number | null = counted.poin;
+    let poinMaksimal = counted.poin_maksimal;
+    const policy = counted.score_policy;
+
+    const pending_grading = policy === 'latest' || submitted.length === 0
+      ? counted.pending_grading
+      : submitted.some(attempt => attempt.pending_grading);
+
+    if (pending_grading) {
+      nilai = null;
+      poin = null;
+    } else if (submitted.length > 0 && policy === 'highest') {
+      counted = submitted.reduce((best, attempt) => attempt.nilai > best.nilai ? attempt : best);
+      nilai = counted.nilai;
+      poin = counted.poin;
+      poinMaksimal = counted.poin_maksimal;
+    } else if (submitted.length > 0 && policy === 'average') {
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      nilai = Math.round(average(submitted.map(attempt => attempt.nilai)));
+      poin = Math.round(average(submitted.map(attempt => attempt.poin)) * 100) / 100;
+      poinMaksimal = Math.round(average(submitted.map(attempt => attempt.poin_maksimal)) * 100) / 100;
+    }
+
+    // Judged on the counted nilai, which under the average policy belongs to no single attempt
+    const status_kelulusan = submitted.length > 0 ? passStatus(nilai, counted.kkm) : null;
+
+    const { attempt_number, score_policy, kkm, ...result } = counted;
+    return {
+      ...result,
+      nilai,
+      poin,
+      poin_maksimal: poinMaksimal,
+      pending_grading,
+      status_kelulusan,
+      attempt_count: group.length
+    };
+  });
+}
 
 export async function getDashboardStats(): Promise<DashboardStats> {
   try {
@@ -18,17 +121,23 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       .where(eq(usersTable.role, 'peserta'))
       .execute();
 
-    // Get average score across all submitted exams
-    const averageScoreResult = await db
-      .select({ avg: avg(answersTable.nilai) })
-      .from(answersTable)
-      .where(eq(answersTable.is_submitted, true))
-      .execute();
+    // Average of each participant's counted score across all submitted and fully graded exams
+    const submittedResults = (await getResultsWithPolicy()).filter(result => result.is_submitted);
+    const gradedScores = submittedResults.flatMap(result => result.nilai === null ? [] : [result.nilai]);
+    const averageScore = gradedScores.length > 0
+      ? gradedScores.reduce((sum, nilai) => sum + nilai, 0) / gradedScores.length
+      : 0;
+
+    const judged = submittedResults.filter(result => result.status_kelulusan !== null);
+    const passRate = judged.length > 0
+      ? judged.filter(result => result.status_kelulusan === 'lulus').length / judged.length * 100
+      : 0;
 
     return {
       totalExams: totalExamsResult[0]?.count || 0,
       totalParticipants: totalParticipantsResult[0]?.count || 0,
-      averageScore: parseFloat(averageScoreResult[0]?.avg || '0')
+      averageScore,
+      passRate
     };
   } catch (error) {
     console.error('Dashboard stats retrieval failed:', error);
@@ -38,98 +147,369 @@ export async function getDashboardStats(): Promise<DashboardStats> {
 
 export async function getExamResults(input: GetExamResultsInput): Promise<ExamResult[]> {
   try {
-    const results = await db
-      .select({
-        user_id: answersTable.user_id,
-        user_nama: usersTable.nama,
-        user_kelas: usersTable.kelas,
-        exam_id: answersTable.exam_id,
-        exam_judul: examsTable.judul_ujian,
-        nilai: answersTable.nilai,
-        waktu_submit: answersTable.waktu_submit,
-        is_submitted: answersTable.is_submitted
-      })
-      .from(answersTable)
-      .innerJoin(usersTable, eq(answersTable.user_id, usersTable.id))
-      .innerJoin(examsTable, eq(answersTable.exam_id, examsTable.id))
-      .where(eq(answersTable.exam_id, input.examId))
+    const results = await getResultsWithPolicy(eq(answersTable.exam_id, input.examId));
+    return input.status === undefined
+      ? results
+      : results.filter(result => result.status_kelulusan === input.status);
+  } catch (error) {
+    console.error('Exam results retrieval failed:', error);
+    throw error;
+  }
+}
+
+// Describes the counted nilai of each participant's submitted, fully graded result
+export async function getExamStatistics(input: GetExamStatisticsInput): Promise<ExamStatistics> {
+  try {
+    const exam = await db.select({ id: examsTable.id })
+      .from(examsTable)
+      .where(eq(examsTable.id, input.examId))
       .execute();
 
-    return results;
+    if (exam.length === 0) {
+      throw new Error('Exam not found');
+    }
+
+    const condition = input.classId === undefined
+      ? eq(answersTable.exam_id, input.examId)
+      : and(eq(answersTable.exam_id, input.examId), eq(usersTable.class_id, input.classId));
+    const submittedResults = (await getResultsWithPolicy(condition)).filter(result => result.is_submitted);
+    const scores = submittedResults.flatMap(result => result.nilai === null ? [] : [result.nilai]);
+
+    const q1 = quantile(scores, 0.25);
+    const q2 = median(scores);
+    const q3 = quantile(scores, 0.75);
+
+    return {
+      examId: input.examId,
+      classId: input.classId ?? null,
+      count: scores.length,
+      pendingCount: submittedResults.length - scores.length,
+      mean: roundStatistic(mean(scores), 2),
+      median: q2,
+      mode: modes(scores),
+      standardDeviation: roundStatistic(standardDeviation(scores), 2),
+      min: scores.length > 0 ? Math.min(...scores) : null,
+      max: scores.length > 0 ? Math.max(...scores) : null,
+      quartiles: q1 === null || q2 === null || q3 === null ? null : { q1, q2, q3 },
+      histogram: histogram(scores, input.bucketSize, 100)
+    };
   } catch (error) {
-    console.error('Exam results retrieval failed:', error);
+    console.error('Exam statistics retrieval failed:', error);
     throw error;
   }
 }
 
-export async function getAllExamResults(): Promise<ExamResult[]> {
+// Ranks classes by the average counted nilai of their members' graded results. Results of
+// participants without a class are left out.
+export async function getClassReport(input: GetClassReportInput): Promise<ClassReport[]> {
   try {
-    const results = await db
-      .select({
-        user_id: answersTable.user_id,
-        user_nama: usersTable.nama,
-        user_kelas: usersTable.kelas,
-        exam_id: answersTable.exam_id,
-        exam_judul: examsTable.judul_ujian,
-        nilai: answersTable.nilai,
-        waktu_submit: answersTable.waktu_submit,
-        is_submitted: answersTable.is_submitted
-      })
-      .from(answersTable)
-      .innerJoin(usersTable, eq(answersTable.user_id, usersTable.id))
-      .innerJoin(examsTable, eq(answersTable.exam_id, examsTable.id))
+    const condition = input.examId === undefined ? undefined : eq(answersTable.exam_id, input.examId);
+    const submittedResults = (await getResultsWithPolicy(condition))
+      .filter(result => result.is_submitted && result.user_kelas !== null);
+
+    const groups = new Map<string, ExamResult[]>();
+    for (const result of submittedResults) {
+      groups.set(result.user_kelas!, [...(groups.get(result.user_kelas!) ?? []), result]);
+    }
+
+    const reports = [...groups.entries()].map(([kelas, results]) => {
+      const graded = results.filter(result => result.nilai !== null);
+      const judged = results.filter(result => result.status_kelulusan !== null);
+      const averageScore = mean(graded.map(result => result.nilai!));
+      return {
+        kelas,
+        participantCount: new Set(graded.map(result => result.user_id)).size,
+        resultCount: results.length,
+        averageScore: roundStatistic(averageScore, 2),
+        passRate: judged.length > 0
+          ? roundStatistic(judged.filter(result => result.status_kelulusan === 'lulus').length / judged.length * 100, 2)
+          : null,
+        rank: null as number | null
+      };
+    });
+
+    // Highest average first, classes without one last and unranked
+    reports.sort((a, b) => (b.averageScore ?? -1) - (a.averageScore ?? -1) || a.kelas.localeCompare(b.kelas));
+    reports.forEach((report, index) => {
+      if (report.averageScore === null) {
+        return;
+      }
+      const previous = reports[index - 1];
+      report.rank = previous && previous.averageScore === report.averageScore ? previous.rank : index + 1;
+    });
+
+    return reports;
+  } catch (error) {
+    console.error('Class report retrieval failed:', error);
+    throw error;
+  }
+}
+
+// A participant's counted results over time, and the assigned exams that closed without a
+// submitted attempt from them
+export async function getParticipantReport(userId: number): Promise<ParticipantReport> {
+  try {
+    const user = await getUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const submittedResults = (await getResultsWithPolicy(eq(answersTable.user_id, userId)))
+      .filter(result => result.is_submitted)
+      .sort((a, b) => a.waktu_submit.getTime() - b.waktu_submit.getTime());
+
+    const closedExams = await db.select({
+      id: examsTable.id,
+      judul_ujian: examsTable.judul_ujian,
+      tanggal_selesai: examsTable.tanggal_selesai
+    })
+      .from(examsTable)
+      .where(and(
+        lt(examsTable.tanggal_selesai, new Date()),
+        examAssignedToUser(userId, user.class_id)
+      ))
+      .orderBy(asc(examsTable.tanggal_selesai), asc(examsTable.id))
       .execute();
 
-    return results;
+    const taken = new Set(submittedResults.map(result => result.exam_id));
+    const graded = submittedResults.flatMap(result => result.nilai === null ? [] : [result.nilai]);
+
+    return {
+      userId: user.id,
+      nama: user.nama,
+      kelas: user.kelas,
+      averageScore: roundStatistic(mean(graded), 2),
+      examCount: submittedResults.length,
+      trend: submittedResults.map(result => ({
+        examId: result.exam_id,
+        examJudul: result.exam_judul,
+        nilai: result.nilai,
+        statusKelulusan: result.status_kelulusan,
+        waktuSubmit: result.waktu_submit
+      })),
+      missedExams: closedExams
+        .filter(exam => !taken.has(exam.id))
+        .map(exam => ({ examId: exam.id, examJudul: exam.judul_ujian, tanggalSelesai: exam.tanggal_selesai }))
+    };
   } catch (error) {
-    console.error('All exam results retrieval failed:', error);
+    console.error('Participant report retrieval failed:', error);
     throw error;
   }
 }
 
-export async function exportExamResultsToCSV(examId?: number): Promise<string> {
+export async function getAllExamResults(): Promise<ExamResult[]> {
   try {
-    let results: ExamResult[];
+    return await getResultsWithPolicy();
+  } catch (error) {
+    console.error('All exam results retrieval failed:', error);
+    throw error;
+  }
+}
+
+// Answers of these question types are option letters, exported as the stored question's letters
+const LETTER_TYPES = new Set(['multiple_choice', 'multiple_answer', 'true_false', 'matching', 'ordering']);
+
+// Attempts whose answers are loaded at once for the per-question columns
+const EXPORT_BATCH_SIZE = 500;
+
+type ExportCell = string | number | Date | null;
+
+type ExportQuestion = typeof questionsTable.$inferSelect;
+
+interface ExportAttempt {
+  id: number;
+  jawaban: unknown;
+  question_order: unknown;
+  option_order: unknown;
+}
+
+// Answer and score of each question for one attempt; both blank when the attempt did not get the
+// question, the score blank while an essay awaits grading
+function questionCells(questions: ExportQuestion[], attempt: ExportAttempt | undefined, essayPoints: Map<string, number>): ExportCell[] {
+  const layout = attempt ? getAttemptLayout(attempt) : null;
+  const jawaban = (attempt?.jawaban ?? {}) as Record<string, AnswerValue>;
+
+  return questions.flatMap(question => {
+    if (!attempt || (layout && !layout.questionOrder.includes(question.id))) {
+      return [null, null];
+    }
+
+    const answer = jawaban[question.id.toString()];
+    const order = getOptionOrder(layout, question);
+    let shown: string | null = null;
+    if (answer !== undefined && answer !== null) {
+      const parts = LETTER_TYPES.has(question.tipe)
+        ? (Array.isArray(answer) ? answer : answer.split(',')).map(choice => toOriginalChoice(order, choice))
+        : [answer].flat();
+      shown = parts.join(',');
+    }
 
-    if (examId !== undefined) {
-      results = await getExamResults({ examId });
+    let skor: number | null;
+    if (question.dibatalkan) {
+      skor = 1;
+    } else if (question.tipe === 'essay') {
+      const awarded = essayPoints.get(`${attempt.id}:${question.id}`);
+      skor = awarded !== undefined ? awarded / question.poin : isEssayAnswered(answer) ? null : 0;
     } else {
-      results = await getAllExamResults();
+      skor = gradeAnswer(question, answer, order);
+    }
+
+    return [shown, roundStatistic(skor, 2)];
+  });
+}
+
+// Participants of the export in result order, a page after the given one at a time
+async function nextExportParticipants(examId: number | undefined, after: { exam_id: number; user_id: number } | null) {
+  return db.selectDistinct({ exam_id: answersTable.exam_id, user_id: answersTable.user_id })
+    .from(answersTable)
+    .where(and(
+      examId !== undefined ? eq(answersTable.exam_id, examId) : undefined,
+      after ? sql`(${answersTable.exam_id}, ${answersTable.user_id}) > (${after.exam_id}, ${after.user_id})` : undefined
+    ))
+    .orderBy(asc(answersTable.exam_id), asc(answersTable.user_id))
+    .limit(EXPORT_BATCH_SIZE)
+    .execute();
+}
+
+// The header, then one row per result; results are read a page of EXPORT_BATCH_SIZE participants
+// at a time, so an export never holds more than one page of results and answers
+async function* exportRows(input: ExportExamResultsInput): AsyncGenerator<ExportCell[]> {
+  if (input.includeQuestions && input.examId === undefined) {
+    throw new Error('Per-question columns need an exam');
+  }
+
+  const questions = input.includeQuestions && input.examId !== undefined
+    ? await db.select()
+      .from(questionsTable)
+      .where(eq(questionsTable.exam_id, input.examId))
+      .orderBy(asc(questionsTable.id))
+      .execute()
+    : [];
+
+  yield [
+    'User ID',
+    'Nama Peserta',
+    'Kelas',
+    'Exam ID',
+    'Judul Ujian',
+    'Nilai',
+    'Waktu Submit',
+    'Status Submit',
+    ...questions.flatMap((_, index) => [`Soal ${index + 1} Jawaban`, `Soal ${index + 1} Skor`])
+  ];
+
+  let participants = await nextExportParticipants(input.examId, null);
+  while (participants.length > 0) {
+    const first = participants[0];
+    const last = participants[participants.length - 1];
+    // A page holds every participant between its first and last, so the range selects exactly its attempts
+    const batch = await getResultsWithPolicy(and(
+      input.examId !== undefined ? eq(answersTable.exam_id, input.examId) : undefined,
+      sql`(${answersTable.exam_id}, ${answersTable.user_id}) between (${first.exam_id}, ${first.user_id}) and (${last.exam_id}, ${last.user_id})`
+    ));
+
+    const attempts = new Map<number, ExportAttempt>();
+    const essayPoints = new Map<string, number>();
+    if (questions.length > 0) {
+      const answerIds = batch.map(result => result.answer_id);
+      const answers = await db.select({
+        id: answersTable.id,
+        jawaban: answersTable.jawaban,
+        question_order: answersTable.question_order,
+        option_order: answersTable.option_order
+      })
+        .from(answersTable)
+        .where(inArray(answersTable.id, answerIds))
+        .execute();
+      answers.forEach(answer => attempts.set(answer.id, answer));
+
+      const grades = await db.select()
+        .from(essayGradesTable)
+        .where(inArray(essayGradesTable.answer_id, answerIds))
+        .execute();
+      grades.forEach(grade => essayPoints.set(`${grade.answer_id}:${grade.question_id}`, grade.poin));
     }
 
-    // Create CSV header
-    const headers = [
-      'User ID',
-      'Nama Peserta',
-      'Kelas',
-      'Exam ID',
-      'Judul Ujian',
-      'Nilai',
-      'Waktu Submit',
-      'Status Submit'
-    ];
-
-    // Create CSV rows
-    const rows = results.map(result => [
-      result.user_id.toString(),
-      `"${result.user_nama}"`, // Wrap in quotes to handle commas in names
-      result.user_kelas || '', // Handle null values
-      result.exam_id.toString(),
-      `"${result.exam_judul}"`, // Wrap in quotes to handle commas in titles
-      result.nilai.toString(),
-      result.waktu_submit.toISOString(),
-      result.is_submitted ? 'Submitted' : 'Not Submitted'
-    ]);
-
-    // Combine headers and rows
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-
-    return csvContent;
+    for (const result of batch) {
+      yield [
+        result.user_id,
+        result.user_nama,
+        result.user_kelas,
+        result.exam_id,
+        result.exam_judul,
+        result.nilai === null ? 'Menunggu penilaian' : result.nilai,
+        result.waktu_submit,
+        result.is_submitted ? 'Submitted' : 'Not Submitted',
+        ...questionCells(questions, attempts.get(result.answer_id), essayPoints)
+      ];
+    }
+
+    participants = participants.length < EXPORT_BATCH_SIZE ? [] : await nextExportParticipants(input.examId, last);
+  }
+}
+
+// Text a spreadsheet would run as a formula when opening the CSV
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Text starting like a formula is prefixed with ' so it stays text; with the ; delimiter, as used
+// where the comma is the decimal separator, numbers get a decimal comma
+function formatCell(cell: ExportCell, delimiter: string): string {
+  if (cell === null) {
+    return '';
+  }
+  if (cell instanceof Date) {
+    return cell.toISOString();
+  }
+  if (typeof cell === 'number') {
+    return delimiter === ';' ? cell.toString().replace('.', ',') : cell.toString();
+  }
+  return FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+}
+
+// RFC 4180 CSV, one record per chunk, so large exams are sent without building the whole file
+export async function* streamExamResultsCSV(input: ExportExamResultsInput): AsyncGenerator<string> {
+  try {
+    let first = true;
+    for await (const row of exportRows(input)) {
+      yield (first && input.bom ? '\uFEFF' : '') + formatCSVRow(row.map(cell => formatCell(cell, input.delimiter)), input.delimiter);
+      first = false;
+    }
   } catch (error) {
     console.error('CSV export failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// The whole CSV as one string, for clients that cannot read a stream (see streamExamResultsCSV)
+export async function exportExamResultsToCSV(input: ExportExamResultsInput): Promise<string> {
+  let csv = '';
+  for await (const chunk of streamExamResultsCSV(input)) {
+    csv += chunk;
+  }
+  return csv;
+}
+
+// Same rows as the CSV, written with exceljs's streaming writer and returned base64 encoded, as
+// importUsers takes workbooks. Nilai and scores are number cells, submit times date cells.
+export async function exportExamResultsToXLSX(input: ExportExamResultsInput): Promise<string> {
+  try {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const sheet = workbook.addWorksheet('Hasil Ujian');
+    sheet.getColumn(7).numFmt = 'yyyy-mm-dd hh:mm:ss';
+
+    for await (const row of exportRows(input)) {
+      sheet.addRow(row).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+
+    return Buffer.concat(chunks).toString('base64');
+  } catch (error) {
+    console.error('XLSX export failed:', error);
+    throw error;
+  }
+}
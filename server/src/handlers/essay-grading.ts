@@ -0,0 +1,178 @@
+import { db } from '../db';
+import { answersTable, questionsTable, usersTable, essayGradesTable } from '../db/schema';
+import {
+  type EssayGrade,
+  type GradeEssayInput,
+  type UngradedEssayResponse,
+  type AnswerValue,
+  type UserProfile
+} from '../schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getAttemptLayout } from '../helpers/attempt-layout';
+import { isEssayAnswered, scoreAttempt } from './answers';
+
+export async function getUngradedEssayResponses(examId: number): Promise<UngradedEssayResponse[]> {
+  try {
+    const essays = await db.select()
+      .from(questionsTable)
+      .where(and(
+        eq(questionsTable.exam_id, examId),
+        eq(questionsTable.tipe, 'essay'),
+        eq(questionsTable.dibatalkan, false) // Voided essays score full points without grading
+      ))
+      .orderBy(asc(questionsTable.id))
+      .execute();
+
+    if (essays.length === 0) {
+      return [];
+    }
+
+    const attempts = await db.select({ answer: answersTable, userNama: usersTable.nama })
+      .from(answersTable)
+      .innerJoin(usersTable, eq(answersTable.user_id, usersTable.id))
+      .where(and(
+        eq(answersTable.exam_id, examId),
+        eq(answersTable.pending_grading, true)
+      ))
+      .orderBy(asc(answersTable.waktu_submit), asc(answersTable.id))
+      .execute();
+
+    const grades = attempts.length === 0 ? [] : await db.select({
+      answer_id: essayGradesTable.answer_id,
+      question_id: essayGradesTable.question_id
+    })
+      .from(essayGradesTable)
+      .where(inArray(essayGradesTable.answer_id, attempts.map(({ answer }) => answer.id)))
+      .execute();
+    const graded = new Set(grades.map(grade => `${grade.answer_id}:${grade.question_id}`));
+
+    const responses: UngradedEssayResponse[] = [];
+    for (const { answer, userNama } of attempts) {
+      const layout = getAttemptLayout(answer);
+      const jawaban = answer.jawaban as Record<string, AnswerValue>;
+
+      for (const essay of essays) {
+        const response = jawaban[essay.id.toString()];
+        if ((layout && !layout.questionOrder.includes(essay.id)) || graded.has(`${answer.id}:${essay.id}`) || !isEssayAnswered(response)) {
+          continue;
+        }
+        responses.push({
+          answerId: answer.id,
+          userId: answer.user_id,
+          userNama,
+          attemptNumber: answer.attempt_number,
+          questionId: essay.id,
+          soal: essay.soal,
+          jawaban: response as string,
+          maxPoin: essay.poin,
+          waktuSubmit: answer.waktu_submit
+        });
+      }
+    }
+
+    return responses;
+  } catch (error) {
+    console.error('Get ungraded essay responses failed:', error);
+    throw error;
+  }
+}
+
+// Awards (or corrects) the points for one essay response and rescores the attempt; once its
+// last essay is graded the attempt is no longer pending
+export async function gradeEssay(input: GradeEssayInput, graderId: number): Promise<EssayGrade> {
+  try {
+    const answers = await db.select()
+      .from(answersTable)
+      .where(eq(answersTable.id, input.answerId))
+      .execute();
+
+    if (answers.length === 0) {
+      throw new Error('Answer record not found');
+    }
+
+    const answer = answers[0];
+    if (!answer.is_submitted) {
+      throw new Error('Only submitted attempts can be graded');
+    }
+
+    const questions = await db.select()
+      .from(questionsTable)
+      .where(and(
+        eq(questionsTable.id, input.questionId),
+        eq(questionsTable.exam_id, answer.exam_id)
+      ))
+      .execute();
+
+    const layout = getAttemptLayout(answer);
+    if (questions.length === 0 || questions[0].tipe !== 'essay' || (layout && !layout.questionOrder.includes(input.questionId))) {
+      throw new Error('Question is not an essay question of this attempt');
+    }
+
+    if (input.poin > questions[0].poin) {
+      throw new Error(`Points cannot exceed ${questions[0].poin}`);
+    }
+
+    const values = {
+      poin: input.poin,
+      feedback: input.feedback || null,
+      graded_by: graderId,
+      graded_at: new Date()
+    };
+    return await db.transaction(async (tx) => {
+      // Graders working on the same attempt take turns, so each rescore counts the other's grade
+      await tx.select({ id: answersTable.id })
+        .from(answersTable)
+        .where(eq(answersTable.id, answer.id))
+        .for('update')
+        .execute();
+
+      const grade = await tx.insert(essayGradesTable)
+        .values({ answer_id: answer.id, question_id: input.questionId, ...values })
+        .onConflictDoUpdate({
+          target: [essayGradesTable.answer_id, essayGradesTable.question_id],
+          set: values
+        })
+        .returning()
+        .execute();
+
+      const score = await scoreAttempt(answer, answer.jawaban as Record<string, AnswerValue>, tx);
+      await tx.update(answersTable)
+        .set(score)
+        .where(eq(answersTable.id, answer.id))
+        .execute();
+
+      return grade[0];
+    });
+  } catch (error) {
+    console.error('Essay grading failed:', error);
+    throw error;
+  }
+}
+
+// Admins see every attempt's grades; participants only their own, to read the feedback
+export async function getEssayGrades(answerId: number, user: UserProfile): Promise<EssayGrade[]> {
+  try {
+    const answers = await db.select({ user_id: answersTable.user_id })
+      .from(answersTable)
+      .where(eq(answersTable.id, answerId))
+      .execute();
+
+    if (answers.length === 0) {
+      throw new Error('Answer record not found');
+    }
+
+    if (user.role !== 'admin' && answers[0].user_id !== user.id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Answer record belongs to another user' });
+    }
+
+    return await db.select()
+      .from(essayGradesTable)
+      .where(eq(essayGradesTable.answer_id, answerId))
+      .orderBy(asc(essayGradesTable.question_id))
+      .execute();
+  } catch (error) {
+    console.error('Get essay grades failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,184 @@
+import { db } from '../db';
+import { examAssignmentsTable, examsTable, classesTable, usersTable } from '../db/schema';
+import {
+  type ExamAssignments,
+  type SetExamAssignmentsInput,
+  type UserProfile
+} from '../schema';
+import { eq, and, or, asc, inArray, exists, notExists, type SQL } from 'drizzle-orm';
+import { userProfileColumns } from './users';
+
+// Condition on examsTable: the exam is assigned to the user directly or through their class,
+// and the user is not excluded from it
+export function examAssignedToUser(userId: number, classId: number | null): SQL {
+  const directAssignment = and(
+    eq(examAssignmentsTable.user_id, userId),
+    eq(examAssignmentsTable.excluded, false)
+  );
+
+  const assigned = db.select({ id: examAssignmentsTable.id })
+    .from(examAssignmentsTable)
+    .where(and(
+      eq(examAssignmentsTable.exam_id, examsTable.id),
+      classId === null
+        ? directAssignment
+        : or(directAssignment, eq(examAssignmentsTable.class_id, classId))
+    ));
+
+  const excluded = db.select({ id: examAssignmentsTable.id })
+    .from(examAssignmentsTable)
+    .where(and(
+      eq(examAssignmentsTable.exam_id, examsTable.id),
+      eq(examAssignmentsTable.user_id, userId),
+      eq(examAssignmentsTable.excluded, true)
+    ));
+
+  return and(exists(assigned), notExists(excluded))!;
+}
+
+export async function isExamAssignedToUser(examId: number, userId: number): Promise<boolean> {
+  const users = await db.select({ class_id: usersTable.class_id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    return false;
+  }
+
+  const exams = await db.select({ id: examsTable.id })
+    .from(examsTable)
+    .where(and(
+      eq(examsTable.id, examId),
+      examAssignedToUser(userId, users[0].class_id)
+    ))
+    .execute();
+
+  return exams.length > 0;
+}
+
+export async function getExamAssignments(examId: number): Promise<ExamAssignments> {
+  try {
+    const rows = await db.select()
+      .from(examAssignmentsTable)
+      .where(eq(examAssignmentsTable.exam_id, examId))
+      .orderBy(asc(examAssignmentsTable.id))
+      .execute();
+
+    return {
+      examId,
+      classIds: rows.filter(row => row.class_id !== null).map(row => row.class_id!),
+      userIds: rows.filter(row => row.user_id !== null && !row.excluded).map(row => row.user_id!),
+      excludedUserIds: rows.filter(row => row.user_id !== null && row.excluded).map(row => row.user_id!)
+    };
+  } catch (error) {
+    console.error('Get exam assignments failed:', error);
+    throw error;
+  }
+}
+
+export async function setExamAssignments(input: SetExamAssignmentsInput): Promise<ExamAssignments> {
+  try {
+    const exam = await db.select({ id: examsTable.id })
+      .from(examsTable)
+      .where(eq(examsTable.id, input.examId))
+      .execute();
+
+    if (exam.length === 0) {
+      throw new Error('Exam not found');
+    }
+
+    const classIds = [...new Set(input.classIds)];
+    const userIds = [...new Set(input.userIds)];
+    const excludedUserIds = [...new Set(input.excludedUserIds)];
+
+    if (userIds.some(id => excludedUserIds.includes(id))) {
+      throw new Error('A user cannot be both assigned and excluded');
+    }
+
+    if (classIds.length > 0) {
+      const classes = await db.select({ id: classesTable.id })
+        .from(classesTable)
+        .where(inArray(classesTable.id, classIds))
+        .execute();
+
+      if (classes.length !== classIds.length) {
+        throw new Error('Some classes were not found');
+      }
+    }
+
+    const allUserIds = [...userIds, ...excludedUserIds];
+    if (allUserIds.length > 0) {
+      const participants = await db.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(and(
+          inArray(usersTable.id, allUserIds),
+          eq(usersTable.role, 'peserta')
+        ))
+        .execute();
+
+      if (participants.length !== allUserIds.length) {
+        throw new Error('Some users were not found or are not participants');
+      }
+    }
+
+    // The given lists replace whatever was assigned before
+    await db.transaction(async (tx) => {
+      await tx.delete(examAssignmentsTable)
+        .where(eq(examAssignmentsTable.exam_id, input.examId))
+        .execute();
+
+      const rows = [
+        ...classIds.map(class_id => ({ exam_id: input.examId, class_id })),
+        ...userIds.map(user_id => ({ exam_id: input.examId, user_id })),
+        ...excludedUserIds.map(user_id => ({ exam_id: input.examId, user_id, excluded: true }))
+      ];
+
+      if (rows.length > 0) {
+        await tx.insert(examAssignmentsTable)
+          .values(rows)
+          .execute();
+      }
+    });
+
+    return await getExamAssignments(input.examId);
+  } catch (error) {
+    console.error('Set exam assignments failed:', error);
+    throw error;
+  }
+}
+
+export async function getExamParticipants(examId: number): Promise<UserProfile[]> {
+  try {
+    const byClass = db.select({ id: examAssignmentsTable.id })
+      .from(examAssignmentsTable)
+      .where(and(
+        eq(examAssignmentsTable.exam_id, examId),
+        eq(examAssignmentsTable.class_id, usersTable.class_id)
+      ));
+
+    const byUser = (excluded: boolean) => db.select({ id: examAssignmentsTable.id })
+      .from(examAssignmentsTable)
+      .where(and(
+        eq(examAssignmentsTable.exam_id, examId),
+        eq(examAssignmentsTable.user_id, usersTable.id),
+        eq(examAssignmentsTable.excluded, excluded)
+      ));
+
+    const results = await db.select(userProfileColumns)
+      .from(usersTable)
+      .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
+      .where(and(
+        eq(usersTable.role, 'peserta'),
+        or(exists(byClass), exists(byUser(false))),
+        notExists(byUser(true))
+      ))
+      .orderBy(asc(usersTable.nama))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get exam participants failed:', error);
+    throw error;
+  }
+}
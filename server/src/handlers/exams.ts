@@ -1,7 +1,8 @@
 import { db } from '../db';
-import { examsTable, questionsTable, answersTable } from '../db/schema';
+import { examsTable, questionsTable, answersTable, usersTable } from '../db/schema';
 import { type CreateExamInput, type UpdateExamInput, type Exam } from '../schema';
 import { eq, and, gte, lte, SQL } from 'drizzle-orm';
+import { examAssignedToUser } from './exam-assignments';
 
 export async function createExam(input: CreateExamInput): Promise<Exam> {
   try {
@@ -18,7 +19,15 @@ export async function createExam(input: CreateExamInput): Promise<Exam> {
         tanggal_mulai: input.tanggal_mulai,
         tanggal_selesai: input.tanggal_selesai,
         durasi: input.durasi,
-        status: input.status
+        status: input.status,
+        max_attempts: input.max_attempts,
+        retake_cooldown_minutes: input.retake_cooldown_minutes,
+        score_policy: input.score_policy,
+        shuffle_questions: input.shuffle_questions,
+        shuffle_options: input.shuffle_options,
+        draw_count: input.draw_count,
+        draw_stratify_by: input.draw_stratify_by,
+        kkm: input.kkm
       })
       .returning()
       .execute();
@@ -110,6 +119,14 @@ export async function updateExam(input: UpdateExamInput): Promise<Exam> {
     if (input.tanggal_selesai !== undefined) updateData.tanggal_selesai = input.tanggal_selesai;
     if (input.durasi !== undefined) updateData.durasi = input.durasi;
     if (input.status !== undefined) updateData.status = input.status;
+    if (input.max_attempts !== undefined) updateData.max_attempts = input.max_attempts;
+    if (input.retake_cooldown_minutes !== undefined) updateData.retake_cooldown_minutes = input.retake_cooldown_minutes;
+    if (input.score_policy !== undefined) updateData.score_policy = input.score_policy;
+    if (input.shuffle_questions !== undefined) updateData.shuffle_questions = input.shuffle_questions;
+    if (input.shuffle_options !== undefined) updateData.shuffle_options = input.shuffle_options;
+    if (input.draw_count !== undefined) updateData.draw_count = input.draw_count;
+    if (input.draw_stratify_by !== undefined) updateData.draw_stratify_by = input.draw_stratify_by;
+    if (input.kkm !== undefined) updateData.kkm = input.kkm;
 
     const result = await db.update(examsTable)
       .set(updateData)
@@ -158,15 +175,25 @@ export async function deleteExam(id: number): Promise<void> {
 export async function getExamsForParticipant(userId: number): Promise<Exam[]> {
   try {
     const now = new Date();
-    
-    // Get all active exams within the time period
+
+    const users = await db.select({ class_id: usersTable.class_id })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      return [];
+    }
+
+    // Active exams within the time period that are assigned to this participant
     const result = await db.select()
       .from(examsTable)
       .where(
         and(
           eq(examsTable.status, 'aktif'),
           lte(examsTable.tanggal_mulai, now),
-          gte(examsTable.tanggal_selesai, now)
+          gte(examsTable.tanggal_selesai, now),
+          examAssignedToUser(userId, users[0].class_id)
         )
       )
       .execute();
@@ -176,4 +203,4 @@ export async function getExamsForParticipant(userId: number): Promise<Exam[]> {
     console.error('Get exams for participant failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+import { db } from '../db';
+import { answersTable, examsTable, questionsTable, essayGradesTable } from '../db/schema';
+import { type AnswerValue, type Distractor, type ItemAnalysis, type ItemStatistics } from '../schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { getAttemptLayout, getOptionOrder, toOriginalChoice } from '../helpers/attempt-layout';
+import { gradeAnswer } from '../helpers/grading';
+import { mean, correlation, cronbachAlpha, roundStatistic } from '../helpers/statistics';
+
+// Share of respondents in each of the upper and lower groups of the discrimination index
+const GROUP_SHARE = 0.27;
+
+const CHOICE_TYPES = new Set(['multiple_choice', 'true_false', 'multiple_answer']);
+
+const isAnswered = (answer: AnswerValue | undefined): boolean =>
+  answer !== undefined && answer !== null && (Array.isArray(answer) ? answer.length > 0 : answer.trim() !== '');
+
+interface ItemResponse {
+  respondent: number;
+  credit: number;
+}
+
+// Mean credit of the top GROUP_SHARE of respondents by total score minus that of the bottom
+function discriminationIndex(responses: ItemResponse[], totals: number[]): number | null {
+  if (responses.length < 2) {
+    return null;
+  }
+  const ranked = [...responses].sort((a, b) => totals[b.respondent] - totals[a.respondent]);
+  const size = Math.max(1, Math.round(ranked.length * GROUP_SHARE));
+  const upper = mean(ranked.slice(0, size).map(response => response.credit)) ?? 0;
+  const lower = mean(ranked.slice(-size).map(response => response.credit)) ?? 0;
+  return upper - lower;
+}
+
+// Analyses each participant's latest submitted attempt. Credit is the raw grade of the response:
+// voided questions are analysed as answered, which is usually why they were voided. Answered
+// essays still waiting for a grade are left out of their item.
+export async function getItemAnalysis(examId: number): Promise<ItemAnalysis> {
+  try {
+    const exam = await db.select({ id: examsTable.id })
+      .from(examsTable)
+      .where(eq(examsTable.id, examId))
+      .execute();
+
+    if (exam.length === 0) {
+      throw new Error('Exam not found');
+    }
+
+    const questions = await db.select()
+      .from(questionsTable)
+      .where(eq(questionsTable.exam_id, examId))
+      .orderBy(asc(questionsTable.id))
+      .execute();
+
+    const submitted = await db.select()
+      .from(answersTable)
+      .where(and(
+        eq(answersTable.exam_id, examId),
+        eq(answersTable.is_submitted, true)
+      ))
+      .orderBy(asc(answersTable.user_id), asc(answersTable.attempt_number))
+      .execute();
+
+    const latest = new Map<number, typeof submitted[number]>();
+    for (const attempt of submitted) {
+      latest.set(attempt.user_id, attempt);
+    }
+    const attempts = [...latest.values()];
+
+    const grades = attempts.length === 0 ? [] : await db.select()
+      .from(essayGradesTable)
+      .where(inArray(essayGradesTable.answer_id, attempts.map(attempt => attempt.id)))
+      .execute();
+    const essayPoints = new Map(grades.map(grade => [`${grade.answer_id}:${grade.question_id}`, grade.poin]));
+
+    // credits[respondent][question] is undefined when the question was not given or is ungraded
+    const totals: number[] = [];
+    const credits: (number | undefined)[][] = [];
+    const given = questions.map(() => 0);
+    const unanswered = questions.map(() => 0);
+    const picks = questions.map(() => new Map<string, number>());
+
+    attempts.forEach((attempt, respondent) => {
+      const layout = getAttemptLayout(attempt);
+      const jawaban = attempt.jawaban as Record<string, AnswerValue>;
+      credits[respondent] = [];
+      totals[respondent] = 0;
+
+      questions.forEach((question, item) => {
+        if (layout && !layout.questionOrder.includes(question.id)) {
+          return;
+        }
+        given[item]++;
+
+        const answer = jawaban[question.id.toString()];
+        const order = getOptionOrder(layout, question);
+        if (!isAnswered(answer)) {
+          unanswered[item]++;
+        } else if (CHOICE_TYPES.has(question.tipe)) {
+          const letters = Array.isArray(answer) ? answer : answer.split(',');
+          for (const letter of new Set(letters.map(choice => toOriginalChoice(order, choice)))) {
+            picks[item].set(letter, (picks[item].get(letter) ?? 0) + 1);
+          }
+        }
+
+        let credit: number | undefined;
+        if (question.tipe === 'essay') {
+          const awarded = essayPoints.get(`${attempt.id}:${question.id}`);
+          credit = awarded !== undefined ? Math.min(awarded / question.poin, 1) : isAnswered(answer) ? undefined : 0;
+        } else {
+          credit = gradeAnswer(question, answer, order);
+        }
+
+        credits[respondent][item] = credit;
+        totals[respondent] += (credit ?? 0) * question.poin;
+      });
+    });
+
+    const items: ItemStatistics[] = questions.map((question, item) => {
+      const responses: ItemResponse[] = credits
+        .map((row, respondent) => ({ respondent, credit: row[item] }))
+        .filter((response): response is ItemResponse => response.credit !== undefined);
+
+      const correct = new Set((question.jawaban_benar ?? '').split(','));
+      const distractors: Distractor[] = CHOICE_TYPES.has(question.tipe)
+        ? (question.pilihan as string[]).map((teks, index) => {
+          const option = String.fromCharCode(65 + index);
+          const count = picks[item].get(option) ?? 0;
+          return {
+            option,
+            teks,
+            isCorrect: correct.has(option),
+            count,
+            proportion: roundStatistic(given[item] > 0 ? count / given[item] : 0) ?? 0
+          };
+        })
+        : [];
+
+      return {
+        questionId: question.id,
+        soal: question.soal,
+        tipe: question.tipe,
+        responseCount: given[item],
+        unansweredCount: unanswered[item],
+        pValue: roundStatistic(mean(responses.map(response => response.credit))),
+        discriminationIndex: roundStatistic(discriminationIndex(responses, totals)),
+        pointBiserial: roundStatistic(correlation(
+          responses.map(response => response.credit),
+          responses.map(response => totals[response.respondent])
+        )),
+        distractors
+      };
+    });
+
+    // Reliability needs a full score matrix: only the items every respondent has a credit for
+    const complete = questions
+      .map((_, item) => item)
+      .filter(item => credits.every(row => row[item] !== undefined));
+    const matrix = credits.map(row => complete.map(item => row[item] as number));
+    const alpha = cronbachAlpha(matrix);
+    const dichotomous = matrix.every(row => row.every(credit => credit === 0 || credit === 1));
+
+    return {
+      examId,
+      respondentCount: attempts.length,
+      kr20: dichotomous ? roundStatistic(alpha) : null,
+      cronbachAlpha: roundStatistic(alpha),
+      items
+    };
+  } catch (error) {
+    console.error('Item analysis failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable } from '../db/schema';
+import { type RequestPasswordResetInput, type ConfirmPasswordResetInput } from '../schema';
+import { eq, and, gt, isNull, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { createHash, randomBytes } from 'crypto';
+import { hashPassword } from '../helpers/password';
+import { getMailTransport } from '../helpers/mail';
+import { readIntEnv } from '../helpers/env';
+import { accountThrottleKey, clearLoginFailures, allowPasswordResetRequest } from '../helpers/login-throttle';
+
+// Reset links stay valid for one hour unless configured otherwise
+const RESET_TOKEN_TTL_MINUTES = readIntEnv('PASSWORD_RESET_TTL_MINUTES', 60);
+
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function requestPasswordReset(input: RequestPasswordResetInput, ipAddress: string | null = null): Promise<void> {
+  try {
+    if (!await allowPasswordResetRequest(input.email, ipAddress)) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: 'Too many password reset requests, try again later'
+      });
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(sql`lower(${usersTable.email})`, input.email))
+      .execute();
+
+    // Unknown emails succeed silently so the endpoint cannot be used to probe for accounts
+    if (users.length === 0) {
+      return;
+    }
+
+    const user = users[0];
+    const now = new Date();
+
+    // Only the newest link works: earlier unused tokens are invalidated
+    await db.update(passwordResetTokensTable)
+      .set({ used_at: now })
+      .where(and(
+        eq(passwordResetTokensTable.user_id, user.id),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .execute();
+
+    const token = randomBytes(32).toString('base64url');
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashResetToken(token),
+        expires_at: new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+      })
+      .execute();
+
+    // Not awaited: waiting for the mail server would make known emails measurably slower
+    // to answer than unknown ones
+    const baseUrl = process.env['APP_BASE_URL'] || 'http://localhost';
+    getMailTransport().send({
+      to: user.email,
+      subject: 'Reset password akun ujian',
+      text: [
+        `Halo ${user.nama},`,
+        '',
+        'Kami menerima permintaan untuk mengatur ulang password akun Anda.',
+        `Buka tautan berikut dalam ${RESET_TOKEN_TTL_MINUTES} menit:`,
+        `${baseUrl}/reset-password?token=${token}`,
+        '',
+        'Abaikan email ini jika Anda tidak meminta reset password.'
+      ].join('\n')
+    }).catch(error => console.error('Password reset mail failed:', error));
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmPasswordReset(input: ConfirmPasswordResetInput): Promise<void> {
+  try {
+    const now = new Date();
+
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .innerJoin(usersTable, eq(passwordResetTokensTable.user_id, usersTable.id))
+      .where(and(
+        eq(passwordResetTokensTable.token_hash, hashResetToken(input.token)),
+        isNull(passwordResetTokensTable.used_at),
+        gt(passwordResetTokensTable.expires_at, now)
+      ))
+      .execute();
+
+    if (tokens.length === 0) {
+      throw new Error('Reset token is invalid or expired');
+    }
+
+    const { password_reset_tokens: resetToken, users: user } = tokens[0];
+
+    // Mark the token used first so a concurrent second redemption cannot succeed
+    const claimed = await db.update(passwordResetTokensTable)
+      .set({ used_at: now })
+      .where(and(
+        eq(passwordResetTokensTable.id, resetToken.id),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new Error('Reset token is invalid or expired');
+    }
+
+    // The user chose this password themselves, so no forced change afterwards
+    await db.update(usersTable)
+      .set({
+        password: await hashPassword(input.newPassword),
+        must_change_password: false
+      })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    // Sign out every existing session and lift any lockout on the account
+    await db.update(sessionsTable)
+      .set({ revoked_at: now })
+      .where(and(
+        eq(sessionsTable.user_id, user.id),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+
+    await clearLoginFailures(accountThrottleKey(user.email));
+  } catch (error) {
+    console.error('Password reset confirmation failed:', error);
+    throw error;
+  }
+}
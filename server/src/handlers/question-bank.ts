@@ -0,0 +1,383 @@
+import { db } from '../db';
+import {
+  subjectsTable,
+  bankQuestionsTable,
+  bankQuestionVersionsTable,
+  examsTable,
+  questionsTable
+} from '../db/schema';
+import {
+  type Subject,
+  type CreateSubjectInput,
+  type BankQuestion,
+  type BankQuestionVersion,
+  type CreateBankQuestionInput,
+  type UpdateBankQuestionInput,
+  type SearchBankQuestionsInput,
+  type AddBankQuestionsToExamInput,
+  type Question,
+  type ShortAnswerKey,
+  type NumericKey
+} from '../schema';
+import { toQuestion, toQuestionColumns, mergeQuestionContent, assertAlternativeAnswers } from './questions';
+import { eq, and, asc, desc, ilike, inArray, arrayContains, sql, type SQL } from 'drizzle-orm';
+
+// A bank question joined with its current version
+const bankQuestionColumns = {
+  id: bankQuestionsTable.id,
+  subject_id: bankQuestionsTable.subject_id,
+  subject_nama: subjectsTable.nama,
+  topik: bankQuestionsTable.topik,
+  kesulitan: bankQuestionsTable.kesulitan,
+  tags: bankQuestionsTable.tags,
+  version: bankQuestionsTable.current_version,
+  tipe: bankQuestionVersionsTable.tipe,
+  soal: bankQuestionVersionsTable.soal,
+  pilihan: bankQuestionVersionsTable.pilihan,
+  jawaban_benar: bankQuestionVersionsTable.jawaban_benar,
+  pasangan: bankQuestionVersionsTable.pasangan,
+  kunci_jawaban: bankQuestionVersionsTable.kunci_jawaban,
+  poin: bankQuestionVersionsTable.poin,
+  poin_salah: bankQuestionVersionsTable.poin_salah,
+  jawaban_alternatif: bankQuestionVersionsTable.jawaban_alternatif,
+  created_at: bankQuestionsTable.created_at,
+  updated_at: bankQuestionsTable.updated_at
+};
+
+// Casts the JSON content columns of a version back to their shapes
+function castContent<T extends { pilihan: unknown; pasangan: unknown; kunci_jawaban: unknown; jawaban_alternatif: unknown }>(row: T) {
+  return {
+    ...row,
+    pilihan: row.pilihan as string[],
+    pasangan: row.pasangan as string[] | null,
+    kunci_jawaban: row.kunci_jawaban as ShortAnswerKey | NumericKey | null,
+    jawaban_alternatif: row.jawaban_alternatif as string[] | null
+  };
+}
+
+async function selectBankQuestions(condition?: SQL, limit?: number): Promise<BankQuestion[]> {
+  const query = db.select(bankQuestionColumns)
+    .from(bankQuestionsTable)
+    .innerJoin(subjectsTable, eq(bankQuestionsTable.subject_id, subjectsTable.id))
+    .innerJoin(bankQuestionVersionsTable, and(
+      eq(bankQuestionVersionsTable.bank_question_id, bankQuestionsTable.id),
+      eq(bankQuestionVersionsTable.version, bankQuestionsTable.current_version)
+    ))
+    .where(condition)
+    .orderBy(asc(bankQuestionsTable.id));
+
+  const results = await (limit === undefined ? query : query.limit(limit)).execute();
+
+  return results.map(castContent);
+}
+
+async function assertSubjectExists(subjectId: number): Promise<void> {
+  const subjects = await db.select({ id: subjectsTable.id })
+    .from(subjectsTable)
+    .where(eq(subjectsTable.id, subjectId))
+    .execute();
+
+  if (subjects.length === 0) {
+    throw new Error('Subject not found');
+  }
+}
+
+export async function createSubject(input: CreateSubjectInput): Promise<Subject> {
+  try {
+    const existing = await db.select()
+      .from(subjectsTable)
+      .where(sql`lower(${subjectsTable.nama}) = lower(${input.nama})`)
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Subject ${existing[0].nama} already exists`);
+    }
+
+    const result = await db.insert(subjectsTable)
+      .values({ nama: input.nama })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Subject creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getAllSubjects(): Promise<Subject[]> {
+  try {
+    return await db.select()
+      .from(subjectsTable)
+      .orderBy(asc(subjectsTable.nama))
+      .execute();
+  } catch (error) {
+    console.error('Get all subjects failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteSubject(id: number): Promise<void> {
+  try {
+    const questions = await db.select({ id: bankQuestionsTable.id })
+      .from(bankQuestionsTable)
+      .where(eq(bankQuestionsTable.subject_id, id))
+      .limit(1)
+      .execute();
+
+    if (questions.length > 0) {
+      throw new Error('Subject still has bank questions');
+    }
+
+    const result = await db.delete(subjectsTable)
+      .where(eq(subjectsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Subject not found');
+    }
+  } catch (error) {
+    console.error('Subject deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function createBankQuestion(input: CreateBankQuestionInput): Promise<BankQuestion> {
+  try {
+    await assertSubjectExists(input.subject_id);
+
+    const id = await db.transaction(async (tx) => {
+      const result = await tx.insert(bankQuestionsTable)
+        .values({
+          subject_id: input.subject_id,
+          topik: input.topik ?? null,
+          kesulitan: input.kesulitan ?? null,
+          tags: input.tags
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(bankQuestionVersionsTable)
+        .values({
+          bank_question_id: result[0].id,
+          version: 1,
+          soal: input.soal,
+          ...toQuestionColumns(input),
+          poin: input.poin,
+          poin_salah: input.poin_salah
+        })
+        .execute();
+
+      return result[0].id;
+    });
+
+    return (await getBankQuestionById(id))!;
+  } catch (error) {
+    console.error('Bank question creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getBankQuestionById(id: number): Promise<BankQuestion | null> {
+  try {
+    const results = await selectBankQuestions(eq(bankQuestionsTable.id, id));
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Get bank question by ID failed:', error);
+    throw error;
+  }
+}
+
+export async function getBankQuestionVersions(bankQuestionId: number): Promise<BankQuestionVersion[]> {
+  try {
+    const results = await db.select()
+      .from(bankQuestionVersionsTable)
+      .where(eq(bankQuestionVersionsTable.bank_question_id, bankQuestionId))
+      .orderBy(desc(bankQuestionVersionsTable.version))
+      .execute();
+
+    return results.map(castContent);
+  } catch (error) {
+    console.error('Get bank question versions failed:', error);
+    throw error;
+  }
+}
+
+export async function updateBankQuestion(input: UpdateBankQuestionInput): Promise<BankQuestion> {
+  try {
+    const existing = await getBankQuestionById(input.id);
+    if (!existing) {
+      throw new Error('Bank question not found');
+    }
+
+    if (input.subject_id !== undefined) {
+      await assertSubjectExists(input.subject_id);
+    }
+
+    // Content edits never touch a stored version, so exams that copied it keep grading the same way.
+    // As on exam questions, a new key drops the alternatives unless they are sent again.
+    const mergedContent = mergeQuestionContent(input, existing);
+    const content = {
+      soal: input.soal ?? existing.soal,
+      ...(mergedContent ?? {
+        tipe: existing.tipe,
+        pilihan: existing.pilihan,
+        jawaban_benar: existing.jawaban_benar,
+        pasangan: existing.pasangan,
+        kunci_jawaban: existing.kunci_jawaban
+      }),
+      poin: input.poin ?? existing.poin,
+      poin_salah: input.poin_salah ?? existing.poin_salah,
+      jawaban_alternatif: input.jawaban_alternatif !== undefined
+        ? input.jawaban_alternatif
+        : mergedContent ? null : existing.jawaban_alternatif
+    };
+    assertAlternativeAnswers(content.tipe, content.pilihan, content.jawaban_alternatif);
+
+    const contentKeys = Object.keys(content) as (keyof typeof content)[];
+    const contentChanged = contentKeys.some(key => JSON.stringify(content[key]) !== JSON.stringify(existing[key]));
+
+    await db.transaction(async (tx) => {
+      const updateData: Partial<typeof bankQuestionsTable.$inferInsert> = { updated_at: new Date() };
+      if (input.subject_id !== undefined) updateData.subject_id = input.subject_id;
+      if (input.topik !== undefined) updateData.topik = input.topik;
+      if (input.kesulitan !== undefined) updateData.kesulitan = input.kesulitan;
+      if (input.tags !== undefined) updateData.tags = input.tags;
+
+      if (contentChanged) {
+        const version = existing.version + 1;
+        await tx.insert(bankQuestionVersionsTable)
+          .values({
+            bank_question_id: input.id,
+            version,
+            ...content
+          })
+          .execute();
+        updateData.current_version = version;
+      }
+
+      await tx.update(bankQuestionsTable)
+        .set(updateData)
+        .where(eq(bankQuestionsTable.id, input.id))
+        .execute();
+    });
+
+    return (await getBankQuestionById(input.id))!;
+  } catch (error) {
+    console.error('Bank question update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteBankQuestion(id: number): Promise<void> {
+  try {
+    // Exam questions copied from it stay; their bank_version_id is cleared
+    const result = await db.delete(bankQuestionsTable)
+      .where(eq(bankQuestionsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Bank question not found');
+    }
+  } catch (error) {
+    console.error('Bank question deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function searchBankQuestions(input: SearchBankQuestionsInput): Promise<BankQuestion[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.subjectId !== undefined) {
+      conditions.push(eq(bankQuestionsTable.subject_id, input.subjectId));
+    }
+
+    if (input.topik !== undefined) {
+      conditions.push(ilike(bankQuestionsTable.topik, input.topik));
+    }
+
+    if (input.kesulitan !== undefined) {
+      conditions.push(eq(bankQuestionsTable.kesulitan, input.kesulitan));
+    }
+
+    if (input.tag !== undefined) {
+      conditions.push(arrayContains(bankQuestionsTable.tags, [input.tag]));
+    }
+
+    if (input.query !== undefined) {
+      // Escape LIKE wildcards so the query is matched literally
+      const escaped = input.query.replace(/[\\%_]/g, char => `\\${char}`);
+      conditions.push(ilike(bankQuestionVersionsTable.soal, `%${escaped}%`));
+    }
+
+    return await selectBankQuestions(conditions.length > 0 ? and(...conditions) : undefined, input.limit);
+  } catch (error) {
+    console.error('Bank question search failed:', error);
+    throw error;
+  }
+}
+
+// Copies the current version of each bank question into the exam. The copy points at that
+// version, so later bank edits do not change the exam or the results already graded on it.
+export async function addBankQuestionsToExam(input: AddBankQuestionsToExamInput): Promise<Question[]> {
+  try {
+    const exam = await db.select({ id: examsTable.id })
+      .from(examsTable)
+      .where(eq(examsTable.id, input.examId))
+      .execute();
+
+    if (exam.length === 0) {
+      throw new Error(`Exam with ID ${input.examId} does not exist`);
+    }
+
+    const bankQuestionIds = [...new Set(input.bankQuestionIds)];
+    const bankQuestions = await db.select({
+      topik: bankQuestionsTable.topik,
+      kesulitan: bankQuestionsTable.kesulitan,
+      version: bankQuestionVersionsTable
+    })
+      .from(bankQuestionsTable)
+      .innerJoin(bankQuestionVersionsTable, and(
+        eq(bankQuestionVersionsTable.bank_question_id, bankQuestionsTable.id),
+        eq(bankQuestionVersionsTable.version, bankQuestionsTable.current_version)
+      ))
+      .where(inArray(bankQuestionsTable.id, bankQuestionIds))
+      .execute();
+
+    if (bankQuestions.length !== bankQuestionIds.length) {
+      throw new Error('Some bank questions were not found');
+    }
+
+    // Keep the order the admin picked them in
+    const byBankId = new Map(bankQuestions.map(question => [question.version.bank_question_id, question]));
+    const result = await db.insert(questionsTable)
+      .values(bankQuestionIds.map(id => {
+        const { topik, kesulitan, version } = byBankId.get(id)!;
+        return {
+          exam_id: input.examId,
+          tipe: version.tipe,
+          soal: version.soal,
+          pilihan: version.pilihan,
+          jawaban_benar: version.jawaban_benar,
+          pasangan: version.pasangan,
+          kunci_jawaban: version.kunci_jawaban,
+          poin: version.poin,
+          poin_salah: version.poin_salah,
+          jawaban_alternatif: version.jawaban_alternatif,
+          topik,
+          kesulitan,
+          bank_version_id: version.id
+        };
+      }))
+      .returning()
+      .execute();
+
+    return result.map(toQuestion);
+  } catch (error) {
+    console.error('Adding bank questions to exam failed:', error);
+    throw error;
+  }
+}
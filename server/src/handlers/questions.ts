@@ -1,7 +1,92 @@
 import { db } from '../db';
 import { questionsTable, examsTable, answersTable } from '../db/schema';
-import { type CreateQuestionInput, type UpdateQuestionInput, type Question, type GetQuestionsByExamInput } from '../schema';
-import { eq, SQL, and } from 'drizzle-orm';
+import {
+  type CreateQuestionInput,
+  type UpdateQuestionInput,
+  type Question,
+  type ParticipantQuestion,
+  type GetQuestionsByExamInput,
+  type QuestionContent,
+  type ShortAnswerKey,
+  type NumericKey,
+  type AnswerValue,
+  validQuestionContentSchema
+} from '../schema';
+import { eq, SQL, and, asc, desc } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { applyAttemptLayout, getAttemptLayout } from '../helpers/attempt-layout';
+import { regradeExam } from './regrade';
+
+// Casts the JSON columns of a question row back to their shapes
+export function toQuestion(question: typeof questionsTable.$inferSelect): Question {
+  return {
+    ...question,
+    pilihan: question.pilihan as string[],
+    pasangan: question.pasangan as string[] | null,
+    kunci_jawaban: question.kunci_jawaban as ShortAnswerKey | NumericKey | null,
+    jawaban_alternatif: question.jawaban_alternatif as string[] | null
+  };
+}
+
+// Spreads the type-specific content over the question columns; fields a type does not use are cleared
+export function toQuestionColumns(content: QuestionContent) {
+  const columns = {
+    tipe: content.tipe ?? 'multiple_choice',
+    pilihan: [] as string[],
+    jawaban_benar: null as string | null,
+    pasangan: null as string[] | null,
+    kunci_jawaban: null as ShortAnswerKey | NumericKey | null
+  };
+
+  switch (content.tipe) {
+    case undefined:
+    case 'multiple_choice':
+    case 'multiple_answer':
+      return { ...columns, pilihan: content.pilihan, jawaban_benar: content.jawaban_benar };
+    case 'true_false':
+      return { ...columns, pilihan: content.pilihan ?? ['Benar', 'Salah'], jawaban_benar: content.jawaban_benar };
+    case 'short_answer':
+    case 'numeric':
+      return { ...columns, kunci_jawaban: content.kunci_jawaban };
+    case 'matching':
+      return { ...columns, pilihan: content.pilihan, pasangan: content.pasangan };
+    case 'ordering':
+      return { ...columns, pilihan: content.pilihan };
+    case 'essay':
+      return columns;
+  }
+}
+
+const contentFields = ['tipe', 'pilihan', 'jawaban_benar', 'pasangan', 'kunci_jawaban'] as const;
+
+type StoredContent = Pick<Question, typeof contentFields[number]>;
+
+// Merges content changes into the stored content and validates the result as a whole; null
+// when no content field changes. Bank questions share this with exam questions.
+export function mergeQuestionContent(changes: Partial<StoredContent>, existing: StoredContent): ReturnType<typeof toQuestionColumns> | null {
+  if (!contentFields.some(field => changes[field] !== undefined)) {
+    return null;
+  }
+
+  const merged = Object.fromEntries(contentFields.map(field => [field, changes[field] !== undefined ? changes[field] : existing[field]]));
+  const content = validQuestionContentSchema.safeParse(merged);
+  if (!content.success) {
+    throw new Error(`Invalid question: ${content.error.issues[0].message}`);
+  }
+  return toQuestionColumns(content.data);
+}
+
+// Alternative answers are extra option letters, so only letter-keyed single answer types take them
+export function assertAlternativeAnswers(tipe: Question['tipe'], pilihan: string[], alternatives: string[] | null): void {
+  if (alternatives !== null && alternatives.length > 0) {
+    if (tipe !== 'multiple_choice' && tipe !== 'true_false') {
+      throw new Error('Alternative answers are only supported on multiple choice and true/false questions');
+    }
+    if (alternatives.some(letter => letter.charCodeAt(0) - 65 >= pilihan.length)) {
+      throw new Error('Alternative answers must refer to existing options');
+    }
+  }
+}
 
 export async function createQuestion(input: CreateQuestionInput): Promise<Question> {
   try {
@@ -20,17 +105,16 @@ export async function createQuestion(input: CreateQuestionInput): Promise<Questi
       .values({
         exam_id: input.exam_id,
         soal: input.soal,
-        pilihan: input.pilihan,
-        jawaban_benar: input.jawaban_benar
+        ...toQuestionColumns(input),
+        poin: input.poin,
+        poin_salah: input.poin_salah,
+        topik: input.topik,
+        kesulitan: input.kesulitan
       })
       .returning()
       .execute();
 
-    const question = result[0];
-    return {
-      ...question,
-      pilihan: question.pilihan as string[] // Cast JSON back to string array
-    };
+    return toQuestion(result[0]);
   } catch (error) {
     console.error('Question creation failed:', error);
     throw error;
@@ -44,10 +128,7 @@ export async function getQuestionsByExamId(input: GetQuestionsByExamInput): Prom
       .where(eq(questionsTable.exam_id, input.examId))
       .execute();
 
-    return results.map(question => ({
-      ...question,
-      pilihan: question.pilihan as string[] // Cast JSON back to string array
-    }));
+    return results.map(toQuestion);
   } catch (error) {
     console.error('Failed to get questions by exam ID:', error);
     throw error;
@@ -65,18 +146,15 @@ export async function getQuestionById(id: number): Promise<Question | null> {
       return null;
     }
 
-    const question = results[0];
-    return {
-      ...question,
-      pilihan: question.pilihan as string[] // Cast JSON back to string array
-    };
+    return toQuestion(results[0]);
   } catch (error) {
     console.error('Failed to get question by ID:', error);
     throw error;
   }
 }
 
-export async function updateQuestion(input: UpdateQuestionInput): Promise<Question> {
+// With regrade set, the exam's submitted attempts are rescored against the updated question
+export async function updateQuestion(input: UpdateQuestionInput, regradedBy: number | null = null): Promise<Question> {
   try {
     // First check if question exists
     const existingQuestion = await getQuestionById(input.id);
@@ -87,8 +165,24 @@ export async function updateQuestion(input: UpdateQuestionInput): Promise<Questi
     // Build update object with only provided fields
     const updateData: any = {};
     if (input.soal !== undefined) updateData.soal = input.soal;
-    if (input.pilihan !== undefined) updateData.pilihan = input.pilihan;
-    if (input.jawaban_benar !== undefined) updateData.jawaban_benar = input.jawaban_benar;
+    if (input.poin !== undefined) updateData.poin = input.poin;
+    if (input.poin_salah !== undefined) updateData.poin_salah = input.poin_salah;
+    if (input.topik !== undefined) updateData.topik = input.topik;
+    if (input.kesulitan !== undefined) updateData.kesulitan = input.kesulitan;
+    if (input.dibatalkan !== undefined) updateData.dibatalkan = input.dibatalkan;
+
+    // Content changes are merged into the stored question and validated as a whole
+    const content = mergeQuestionContent(input, existingQuestion);
+    if (content) {
+      Object.assign(updateData, content);
+      // Alternatives were accepted against the old key, so a new key drops them unless resent
+      updateData.jawaban_alternatif = null;
+    }
+
+    if (input.jawaban_alternatif !== undefined) {
+      assertAlternativeAnswers(updateData.tipe ?? existingQuestion.tipe, updateData.pilihan ?? existingQuestion.pilihan, input.jawaban_alternatif);
+      updateData.jawaban_alternatif = input.jawaban_alternatif;
+    }
 
     const result = await db.update(questionsTable)
       .set(updateData)
@@ -96,18 +190,19 @@ export async function updateQuestion(input: UpdateQuestionInput): Promise<Questi
       .returning()
       .execute();
 
-    const question = result[0];
-    return {
-      ...question,
-      pilihan: question.pilihan as string[] // Cast JSON back to string array
-    };
+    if (input.regrade) {
+      await regradeExam({ examId: existingQuestion.exam_id, alasan: `Question ${input.id} updated` }, regradedBy);
+    }
+
+    return toQuestion(result[0]);
   } catch (error) {
     console.error('Question update failed:', error);
     throw error;
   }
 }
 
-export async function deleteQuestion(id: number): Promise<void> {
+// With regrade set, the exam's submitted attempts are rescored without the deleted question
+export async function deleteQuestion(id: number, regrade = false, regradedBy: number | null = null): Promise<void> {
   try {
     // First check if question exists
     const existingQuestion = await getQuestionById(id);
@@ -124,8 +219,8 @@ export async function deleteQuestion(id: number): Promise<void> {
 
     // Update each answer to remove references to this question
     for (const answer of answers) {
-      const jawaban = answer.jawaban as Record<string, string>;
-      const progressJawaban = answer.progress_jawaban as Record<string, string> | null;
+      const jawaban = answer.jawaban as Record<string, AnswerValue>;
+      const progressJawaban = answer.progress_jawaban as Record<string, AnswerValue> | null;
 
       // Remove the question from jawaban object
       if (jawaban && jawaban[id.toString()]) {
@@ -151,31 +246,67 @@ export async function deleteQuestion(id: number): Promise<void> {
     await db.delete(questionsTable)
       .where(eq(questionsTable.id, id))
       .execute();
+
+    if (regrade) {
+      await regradeExam({ examId: existingQuestion.exam_id, alasan: `Question ${id} deleted` }, regradedBy);
+    }
   } catch (error) {
     console.error('Question deletion failed:', error);
     throw error;
   }
 }
 
-export async function getQuestionsForParticipant(examId: number): Promise<Omit<Question, 'jawaban_benar'>[]> {
+// With a userId the questions follow that participant's attempt in progress: its order, its option
+// letters and only the questions drawn for it. Without one (no attempt started, or only submitted
+// ones) nothing is shown, so questions cannot be read before the timer starts.
+export async function getQuestionsForParticipant(examId: number, userId?: number): Promise<ParticipantQuestion[]> {
   try {
     const results = await db.select({
       id: questionsTable.id,
       exam_id: questionsTable.exam_id,
+      tipe: questionsTable.tipe,
       soal: questionsTable.soal,
       pilihan: questionsTable.pilihan,
+      pasangan: questionsTable.pasangan,
+      poin: questionsTable.poin,
+      poin_salah: questionsTable.poin_salah,
+      topik: questionsTable.topik,
+      kesulitan: questionsTable.kesulitan,
       created_at: questionsTable.created_at
     })
       .from(questionsTable)
       .where(eq(questionsTable.exam_id, examId))
+      .orderBy(asc(questionsTable.id))
       .execute();
 
-    return results.map(question => ({
+    const questions = results.map(question => ({
       ...question,
-      pilihan: question.pilihan as string[] // Cast JSON back to string array
+      pilihan: question.pilihan as string[], // Cast JSON back to string array
+      pasangan: question.pasangan as string[] | null
     }));
+
+    if (userId === undefined) {
+      return applyAttemptLayout(questions, null);
+    }
+
+    const attempts = await db.select()
+      .from(answersTable)
+      .where(and(
+        eq(answersTable.exam_id, examId),
+        eq(answersTable.user_id, userId)
+      ))
+      .orderBy(desc(answersTable.attempt_number))
+      .limit(1)
+      .execute();
+
+    const layout = attempts.length > 0 && !attempts[0].is_submitted ? getAttemptLayout(attempts[0]) : null;
+    if (!layout) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'No attempt in progress for this exam' });
+    }
+
+    return applyAttemptLayout(questions, layout);
   } catch (error) {
     console.error('Failed to get questions for participant:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { db } from '../db';
+import { answersTable, examsTable, regradeLogsTable } from '../db/schema';
+import {
+  type RegradeExamInput,
+  type RegradeResult,
+  type RegradeLog,
+  type AnswerValue
+} from '../schema';
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { scoreAttempt } from './answers';
+
+// Rescores every submitted attempt of the exam against its current questions, e.g. after a
+// corrected key, an accepted alternative or a voided question. Only attempts whose points or
+// nilai changed are logged.
+export async function regradeExam(input: RegradeExamInput, regradedBy: number | null): Promise<RegradeResult> {
+  try {
+    const exam = await db.select({ id: examsTable.id })
+      .from(examsTable)
+      .where(eq(examsTable.id, input.examId))
+      .execute();
+
+    if (exam.length === 0) {
+      throw new Error('Exam not found');
+    }
+
+    // All scores and their log entries are written together, or none are if one fails
+    const { attempts, changes } = await db.transaction(async (tx) => {
+      const attempts = await tx.select()
+        .from(answersTable)
+        .where(and(
+          eq(answersTable.exam_id, input.examId),
+          eq(answersTable.is_submitted, true)
+        ))
+        .orderBy(asc(answersTable.id))
+        .execute();
+
+      const changes: RegradeLog[] = [];
+      for (const attempt of attempts) {
+        const score = await scoreAttempt(attempt, attempt.jawaban as Record<string, AnswerValue>, tx);
+        await tx.update(answersTable)
+          .set(score)
+          .where(eq(answersTable.id, attempt.id))
+          .execute();
+
+        if (score.nilai === attempt.nilai && score.poin === attempt.poin) {
+          continue;
+        }
+
+        const log = await tx.insert(regradeLogsTable)
+          .values({
+            exam_id: input.examId,
+            answer_id: attempt.id,
+            nilai_lama: attempt.nilai,
+            nilai_baru: score.nilai,
+            poin_lama: attempt.poin,
+            poin_baru: score.poin,
+            alasan: input.alasan || null,
+            regraded_by: regradedBy
+          })
+          .returning()
+          .execute();
+        changes.push(log[0]);
+      }
+
+      return { attempts, changes };
+    });
+
+    return {
+      examId: input.examId,
+      regradedCount: attempts.length,
+      changedCount: changes.length,
+      changes
+    };
+  } catch (error) {
+    console.error('Exam regrade failed:', error);
+    throw error;
+  }
+}
+
+export async function getRegradeLogs(examId: number): Promise<RegradeLog[]> {
+  try {
+    return await db.select()
+      .from(regradeLogsTable)
+      .where(eq(regradeLogsTable.exam_id, examId))
+      .orderBy(desc(regradeLogsTable.created_at), asc(regradeLogsTable.answer_id))
+      .execute();
+  } catch (error) {
+    console.error('Get regrade logs failed:', error);
+    throw error;
+  }
+}
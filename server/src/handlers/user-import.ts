@@ -0,0 +1,211 @@
+import { db } from '../db';
+import { usersTable, classesTable } from '../db/schema';
+import {
+  createUserInputSchema,
+  type ImportUsersInput,
+  type ImportUsersResult,
+  type ImportUserRow
+} from '../schema';
+import { inArray, sql } from 'drizzle-orm';
+import { randomInt } from 'crypto';
+import ExcelJS from 'exceljs';
+import { parseCSV } from '../helpers/csv';
+import { hashPassword } from '../helpers/password';
+import { normalizeClassName } from './classes';
+
+const REQUIRED_COLUMNS = ['nama', 'email', 'kelas'] as const;
+
+// No 0/O, 1/l/i so printed passwords can be typed without guessing
+const PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const GENERATED_PASSWORD_LENGTH = 8;
+
+interface SheetRow {
+  number: number;
+  cells: string[];
+}
+
+function generatePassword(): string {
+  let password = '';
+  for (let i = 0; i < GENERATED_PASSWORD_LENGTH; i++) {
+    password += PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)];
+  }
+  return password;
+}
+
+async function readSheetRows(input: ImportUsersInput): Promise<SheetRow[]> {
+  if (input.format === 'csv') {
+    return parseCSV(input.content).map((cells, index) => ({ number: index + 1, cells }));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type, which a plain ArrayBuffer satisfies
+  const bytes = Buffer.from(input.content, 'base64');
+  await workbook.xlsx.load(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error('Workbook contains no worksheets');
+  }
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    rows.push({ number: rowNumber, cells });
+  });
+  return rows;
+}
+
+function buildCredentialSheet(rows: ImportUserRow[]): string {
+  return rows
+    .filter(row => row.status === 'imported')
+    .map(row => [
+      `Nama     : ${row.nama}`,
+      `Kelas    : ${row.kelas ?? '-'}`,
+      `Email    : ${row.email}`,
+      `Password : ${row.password}`,
+      '-'.repeat(40)
+    ].join('\n'))
+    .join('\n');
+}
+
+export async function importUsers(input: ImportUsersInput): Promise<ImportUsersResult> {
+  try {
+    const sheetRows = await readSheetRows(input);
+    if (sheetRows.length === 0) {
+      throw new Error('Import file is empty');
+    }
+
+    // Header names are matched case-insensitively, in any column order
+    const [header, ...dataRows] = sheetRows;
+    const columnIndex = new Map(header.cells.map((name, index) => [name.trim().toLowerCase(), index]));
+    for (const column of REQUIRED_COLUMNS) {
+      if (!columnIndex.has(column)) {
+        throw new Error(`Missing required column: ${column}`);
+      }
+    }
+
+    const cell = (row: SheetRow, column: string): string => {
+      const index = columnIndex.get(column);
+      return index === undefined ? '' : (row.cells[index] ?? '').trim();
+    };
+
+    const rows: (ImportUserRow & { plainPassword: string })[] = dataRows
+      .filter(row => row.cells.some(value => value.trim() !== ''))
+      .map(row => {
+        const providedPassword = cell(row, 'password');
+        const plainPassword = providedPassword || generatePassword();
+        const candidate = {
+          nama: cell(row, 'nama'),
+          email: cell(row, 'email'),
+          password: plainPassword,
+          role: 'peserta' as const,
+          kelas: cell(row, 'kelas') ? normalizeClassName(cell(row, 'kelas')) : null
+        };
+
+        const parsed = createUserInputSchema.safeParse(candidate);
+        const errors = parsed.success
+          ? []
+          : parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+        if (candidate.nama === '') {
+          errors.push('nama: Required');
+        }
+
+        return {
+          row: row.number,
+          nama: candidate.nama,
+          email: parsed.success ? parsed.data.email : candidate.email,
+          kelas: candidate.kelas,
+          status: errors.length > 0 ? 'error' as const : 'valid' as const,
+          errors,
+          password: null,
+          passwordGenerated: providedPassword === '',
+          plainPassword
+        };
+      });
+
+    // Duplicates inside the file and emails that are already registered
+    const seenEmails = new Map<string, number>();
+    for (const row of rows) {
+      const firstRow = seenEmails.get(row.email);
+      if (firstRow !== undefined && row.email !== '') {
+        row.errors.push(`email: Duplicate of row ${firstRow}`);
+        row.status = 'error';
+      } else {
+        seenEmails.set(row.email, row.row);
+      }
+    }
+
+    // Accounts created elsewhere may have kept their capitals, so both sides are compared lower-cased
+    const emails = rows.map(row => row.email).filter(email => email !== '');
+    if (emails.length > 0) {
+      const existing = await db.select({ email: usersTable.email })
+        .from(usersTable)
+        .where(inArray(sql`lower(${usersTable.email})`, emails))
+        .execute();
+      const existingEmails = new Set(existing.map(user => user.email.toLowerCase()));
+      for (const row of rows) {
+        if (existingEmails.has(row.email)) {
+          row.errors.push('email: Already registered');
+          row.status = 'error';
+        }
+      }
+    }
+
+    // Kelas names must match an existing class unless the admin allows creating new ones
+    const classes = await db.select().from(classesTable).execute();
+    const classIds = new Map(classes.map(c => [c.nama, c.id]));
+    for (const row of rows) {
+      if (row.kelas !== null && !classIds.has(row.kelas) && !input.createMissingClasses) {
+        row.errors.push(`kelas: Unknown class ${row.kelas}`);
+        row.status = 'error';
+      }
+    }
+
+    // Valid rows are imported together; rows with errors are reported and skipped
+    if (!input.dryRun) {
+      const validRows = rows.filter(row => row.status === 'valid');
+      await db.transaction(async (tx) => {
+        for (const row of validRows) {
+          if (row.kelas !== null && !classIds.has(row.kelas)) {
+            const created = await tx.insert(classesTable)
+              .values({ nama: row.kelas })
+              .returning()
+              .execute();
+            classIds.set(row.kelas, created[0].id);
+          }
+
+          await tx.insert(usersTable)
+            .values({
+              nama: row.nama,
+              email: row.email,
+              password: await hashPassword(row.plainPassword),
+              role: 'peserta',
+              class_id: row.kelas !== null ? classIds.get(row.kelas)! : null,
+              must_change_password: true
+            })
+            .execute();
+        }
+      });
+      for (const row of validRows) {
+        row.status = 'imported';
+        row.password = row.plainPassword;
+      }
+    }
+
+    const resultRows: ImportUserRow[] = rows.map(({ plainPassword, ...row }) => row);
+    return {
+      dryRun: input.dryRun,
+      totalRows: resultRows.length,
+      importedCount: resultRows.filter(row => row.status === 'imported').length,
+      errorCount: resultRows.filter(row => row.status === 'error').length,
+      rows: resultRows,
+      credentialSheet: buildCredentialSheet(resultRows)
+    };
+  } catch (error) {
+    console.error('User import failed:', error);
+    throw error;
+  }
+}
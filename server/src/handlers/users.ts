@@ -1,18 +1,50 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type UpdateUserInput, type ResetPasswordInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
-
-// Simple password hashing function (in production, use bcrypt or similar)
-function hashPassword(password: string): string {
-  // This is a simple hash for demonstration - use bcrypt in production
-  return Buffer.from(password).toString('base64');
+import { usersTable, classesTable } from '../db/schema';
+import { 
+  type CreateUserInput, 
+  type UpdateUserInput, 
+  type ResetPasswordInput, 
+  type ChangeOwnPasswordInput, 
+  type UserProfile 
+} from '../schema';
+import { eq, sql } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../helpers/password';
+
+// Class name of a user; falls back to the legacy free-text column until migrateLegacyKelas has run.
+// Queries using it must left join classesTable on usersTable.class_id.
+export const userKelasColumn = sql<string | null>`coalesce(${classesTable.nama}, ${usersTable.kelas})`;
+
+// Columns exposed through the API; the password hash is deliberately left out
+export const userProfileColumns = {
+  id: usersTable.id,
+  nama: usersTable.nama,
+  email: usersTable.email,
+  role: usersTable.role,
+  kelas: userKelasColumn,
+  class_id: usersTable.class_id,
+  must_change_password: usersTable.must_change_password,
+  created_at: usersTable.created_at
+};
+
+async function assertClassExists(classId: number): Promise<void> {
+  const classes = await db.select({ id: classesTable.id })
+    .from(classesTable)
+    .where(eq(classesTable.id, classId))
+    .execute();
+
+  if (classes.length === 0) {
+    throw new Error('Class not found');
+  }
 }
 
-export async function createUser(input: CreateUserInput): Promise<User> {
+export async function createUser(input: CreateUserInput): Promise<UserProfile> {
   try {
+    if (input.class_id) {
+      await assertClassExists(input.class_id);
+    }
+
     // Hash the password before storing
-    const hashedPassword = hashPassword(input.password);
+    const hashedPassword = await hashPassword(input.password);
 
     // Insert user record
     const result = await db.insert(usersTable)
@@ -21,34 +53,25 @@ export async function createUser(input: CreateUserInput): Promise<User> {
         email: input.email,
         password: hashedPassword,
         role: input.role,
-        kelas: input.kelas || null
+        class_id: input.class_id ?? null,
+        must_change_password: true // Admin chose the password, the user replaces it on first login
       })
-      .returning()
+      .returning({ id: usersTable.id })
       .execute();
 
-    const user = result[0];
-    return {
-      ...user,
-      created_at: new Date(user.created_at)
-    };
+    // Re-read through the class join so kelas holds the class name
+    return (await getUserById(result[0].id))!;
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
   }
 }
 
-export async function getAllUsers(): Promise<User[]> {
+export async function getAllUsers(): Promise<UserProfile[]> {
   try {
-    const results = await db.select({
-      id: usersTable.id,
-      nama: usersTable.nama,
-      email: usersTable.email,
-      password: usersTable.password, // Include for schema compliance
-      role: usersTable.role,
-      kelas: usersTable.kelas,
-      created_at: usersTable.created_at
-    })
+    const results = await db.select(userProfileColumns)
     .from(usersTable)
+    .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
     .execute();
 
     return results.map(user => ({
@@ -61,18 +84,11 @@ export async function getAllUsers(): Promise<User[]> {
   }
 }
 
-export async function getUsersByRole(role: 'admin' | 'peserta'): Promise<User[]> {
+export async function getUsersByRole(role: 'admin' | 'peserta'): Promise<UserProfile[]> {
   try {
-    const results = await db.select({
-      id: usersTable.id,
-      nama: usersTable.nama,
-      email: usersTable.email,
-      password: usersTable.password, // Include for schema compliance
-      role: usersTable.role,
-      kelas: usersTable.kelas,
-      created_at: usersTable.created_at
-    })
+    const results = await db.select(userProfileColumns)
     .from(usersTable)
+    .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
     .where(eq(usersTable.role, role))
     .execute();
 
@@ -86,18 +102,11 @@ export async function getUsersByRole(role: 'admin' | 'peserta'): Promise<User[]>
   }
 }
 
-export async function getUserById(id: number): Promise<User | null> {
+export async function getUserById(id: number): Promise<UserProfile | null> {
   try {
-    const results = await db.select({
-      id: usersTable.id,
-      nama: usersTable.nama,
-      email: usersTable.email,
-      password: usersTable.password, // Include for schema compliance
-      role: usersTable.role,
-      kelas: usersTable.kelas,
-      created_at: usersTable.created_at
-    })
+    const results = await db.select(userProfileColumns)
     .from(usersTable)
+    .leftJoin(classesTable, eq(usersTable.class_id, classesTable.id))
     .where(eq(usersTable.id, id))
     .execute();
 
@@ -116,7 +125,7 @@ export async function getUserById(id: number): Promise<User | null> {
   }
 }
 
-export async function updateUser(input: UpdateUserInput): Promise<User> {
+export async function updateUser(input: UpdateUserInput): Promise<UserProfile> {
   try {
     const updateData: any = {};
 
@@ -129,28 +138,30 @@ export async function updateUser(input: UpdateUserInput): Promise<User> {
     }
 
     if (input.password !== undefined) {
-      updateData.password = hashPassword(input.password);
+      updateData.password = await hashPassword(input.password);
+      updateData.must_change_password = true;
     }
 
-    if (input.kelas !== undefined) {
-      updateData.kelas = input.kelas;
+    if (input.class_id !== undefined) {
+      if (input.class_id !== null) {
+        await assertClassExists(input.class_id);
+      }
+      updateData.class_id = input.class_id;
+      updateData.kelas = null; // The class row is now the single source of the name
     }
 
     const result = await db.update(usersTable)
       .set(updateData)
       .where(eq(usersTable.id, input.id))
-      .returning()
+      .returning({ id: usersTable.id })
       .execute();
 
     if (result.length === 0) {
       throw new Error('User not found');
     }
 
-    const user = result[0];
-    return {
-      ...user,
-      created_at: new Date(user.created_at)
-    };
+    // Re-read through the class join so kelas holds the class name
+    return (await getUserById(result[0].id))!;
   } catch (error) {
     console.error('User update failed:', error);
     throw error;
@@ -173,27 +184,61 @@ export async function deleteUser(id: number): Promise<void> {
   }
 }
 
-export async function resetUserPassword(input: ResetPasswordInput): Promise<User> {
+export async function resetUserPassword(input: ResetPasswordInput): Promise<UserProfile> {
   try {
-    const hashedPassword = hashPassword(input.newPassword);
+    const hashedPassword = await hashPassword(input.newPassword);
 
     const result = await db.update(usersTable)
-      .set({ password: hashedPassword })
+      .set({ password: hashedPassword, must_change_password: true })
       .where(eq(usersTable.id, input.id))
-      .returning()
+      .returning({ id: usersTable.id })
       .execute();
 
     if (result.length === 0) {
       throw new Error('User not found');
     }
 
-    const user = result[0];
-    return {
-      ...user,
-      created_at: new Date(user.created_at)
-    };
+    // Re-read through the class join so kelas holds the class name
+    return (await getUserById(result[0].id))!;
   } catch (error) {
     console.error('Password reset failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function changeOwnPassword(userId: number, input: ChangeOwnPasswordInput): Promise<UserProfile> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const isCurrentValid = await verifyPassword(input.currentPassword, users[0].password);
+    if (!isCurrentValid) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (input.newPassword === input.currentPassword) {
+      throw new Error('New password must be different from the current password');
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        password: await hashPassword(input.newPassword),
+        must_change_password: false
+      })
+      .where(eq(usersTable.id, userId))
+      .returning({ id: usersTable.id })
+      .execute();
+
+    // Re-read through the class join so kelas holds the class name
+    return (await getUserById(result[0].id))!;
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
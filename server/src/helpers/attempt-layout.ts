@@ -0,0 +1,153 @@
+import { seededShuffle } from './shuffle';
+import { type QuestionType } from '../schema';
+
+// How one attempt sees its exam. Stored on the answer row when the attempt starts so the
+// participant, the grader and later review screens all agree on order and option letters.
+export interface AttemptLayout {
+  questionOrder: number[]; // Question ids in display order
+  optionOrder: Record<string, number[]>; // Per question id: the original option index shown at each position
+}
+
+interface LayoutSettings {
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  draw_count: number | null;
+  draw_stratify_by: 'topik' | 'kesulitan' | null;
+}
+
+interface PoolQuestion {
+  id: number;
+  tipe: QuestionType;
+  pilihan: unknown;
+  topik: string | null;
+  kesulitan: string | null;
+}
+
+const letterOf = (index: number): string => String.fromCharCode(65 + index);
+const indexOf = (letter: string): number => {
+  const trimmed = letter.trim().toUpperCase();
+  return trimmed.length === 1 ? trimmed.charCodeAt(0) - 65 : -1;
+};
+
+// Their stored order is the answer, so these are shuffled whatever the exam settings say
+const ALWAYS_SHUFFLED: ReadonlySet<QuestionType> = new Set(['matching', 'ordering']);
+const SHUFFLABLE: ReadonlySet<QuestionType> = new Set(['multiple_choice', 'multiple_answer', 'matching', 'ordering']);
+
+// Picks draw_count questions from the pool. When stratified, every topic or difficulty keeps
+// its share of the pool (largest remainders get the leftover seats). Stored order is kept.
+export function drawQuestions<T extends PoolQuestion>(answerId: number, settings: LayoutSettings, pool: T[]): T[] {
+  if (settings.draw_count === null || settings.draw_count >= pool.length) {
+    return pool;
+  }
+  const drawCount = settings.draw_count;
+  const strata = settings.draw_stratify_by;
+
+  const groups = new Map<string, T[]>();
+  for (const question of pool) {
+    const key = strata ? question[strata] ?? '' : '';
+    groups.set(key, [...(groups.get(key) ?? []), question]);
+  }
+
+  const quotas = [...groups.entries()].map(([key, members]) => {
+    const exact = drawCount * members.length / pool.length;
+    return { key, members, quota: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = drawCount - quotas.reduce((sum, group) => sum + group.quota, 0);
+  for (const group of [...quotas].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover === 0) break;
+    group.quota++;
+    leftover--;
+  }
+
+  const drawn = new Set<number>();
+  for (const group of quotas) {
+    for (const question of seededShuffle(group.members, `${answerId}:draw:${group.key}`).slice(0, group.quota)) {
+      drawn.add(question.id);
+    }
+  }
+  return pool.filter(question => drawn.has(question.id));
+}
+
+// Seeded from the attempt id, so each attempt gets its own but reproducible draw and order
+export function buildAttemptLayout(
+  answerId: number,
+  settings: LayoutSettings,
+  pool: PoolQuestion[]
+): AttemptLayout {
+  const questions = drawQuestions(answerId, settings, pool);
+  const ids = questions.map(question => question.id);
+  const questionOrder = settings.shuffle_questions ? seededShuffle(ids, `${answerId}`) : ids;
+
+  const optionOrder: Record<string, number[]> = {};
+  for (const question of questions) {
+    const positions = (question.pilihan as unknown[]).map((_, index) => index);
+    const shuffle = ALWAYS_SHUFFLED.has(question.tipe) || (settings.shuffle_options && SHUFFLABLE.has(question.tipe));
+    optionOrder[question.id.toString()] = shuffle
+      ? seededShuffle(positions, `${answerId}:${question.id}`)
+      : positions;
+  }
+
+  return { questionOrder, optionOrder };
+}
+
+// Attempts started before layouts were recorded have none and see the exam as stored
+export function getAttemptLayout(answer: { question_order: unknown; option_order: unknown }): AttemptLayout | null {
+  if (answer.question_order === null || answer.question_order === undefined) {
+    return null;
+  }
+  return {
+    questionOrder: answer.question_order as number[],
+    optionOrder: (answer.option_order ?? {}) as Record<string, number[]>
+  };
+}
+
+// The original option index shown at each position. Without a layout, questions whose stored
+// order gives the answer away still get a fixed shuffle, seeded from the question alone.
+export function getOptionOrder(
+  layout: AttemptLayout | null,
+  question: { id: number; tipe: QuestionType; pilihan: unknown }
+): number[] | undefined {
+  const order = layout?.optionOrder[question.id.toString()];
+  if (order || !ALWAYS_SHUFFLED.has(question.tipe)) {
+    return order;
+  }
+  const positions = (question.pilihan as unknown[]).map((_, index) => index);
+  return seededShuffle(positions, `question:${question.id}`);
+}
+
+// Translates the letter a participant picked back to the letter in the stored question
+export function toOriginalChoice(order: number[] | undefined, choice: string): string {
+  const position = indexOf(choice);
+  if (!order || position < 0 || position >= order.length) {
+    return choice.trim().toUpperCase();
+  }
+  return letterOf(order[position]);
+}
+
+// Orders questions and their options as the attempt sees them. Matching questions keep their
+// left side in place and shuffle the right side instead.
+export function applyAttemptLayout<T extends { id: number; tipe: QuestionType; pilihan: string[]; pasangan: string[] | null }>(
+  questions: T[],
+  layout: AttemptLayout | null
+): T[] {
+  const reorder = (question: T): T => {
+    const order = getOptionOrder(layout, question);
+    const items = question.tipe === 'matching' ? question.pasangan : question.pilihan;
+    if (!order || !items || order.length !== items.length) {
+      return question;
+    }
+    const reordered = order.map(index => items[index]);
+    return question.tipe === 'matching'
+      ? { ...question, pasangan: reordered }
+      : { ...question, pilihan: reordered };
+  };
+
+  if (!layout) {
+    return questions.map(reorder);
+  }
+
+  const byId = new Map(questions.map(question => [question.id, question]));
+  return layout.questionOrder
+    .filter(id => byId.has(id))
+    .map(id => reorder(byId.get(id)!));
+}
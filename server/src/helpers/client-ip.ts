@@ -0,0 +1,24 @@
+import { type IncomingMessage } from 'http';
+
+// Addresses whose X-Real-IP header is believed. The bundled Caddy proxy runs in the same
+// container and connects over loopback; set TRUSTED_PROXIES (comma separated) for other setups.
+function getTrustedProxies(): Set<string> {
+  const configured = process.env['TRUSTED_PROXIES'];
+  const addresses = configured !== undefined
+    ? configured.split(',').map(address => address.trim()).filter(address => address !== '')
+    : ['127.0.0.1', '::1'];
+  // IPv4 peers on a dual-stack socket show up as IPv4-mapped IPv6 addresses
+  return new Set(addresses.flatMap(address => [address, `::ffff:${address}`]));
+}
+
+// The client address used for per-address login throttling. X-Real-IP is only taken from a
+// trusted proxy: a client reaching the server directly could otherwise pick any address.
+export function getClientIp(req: Pick<IncomingMessage, 'headers' | 'socket'>): string | null {
+  const peer = req.socket.remoteAddress ?? null;
+  if (peer === null || !getTrustedProxies().has(peer)) {
+    return peer;
+  }
+
+  const realIp = req.headers['x-real-ip'];
+  return (Array.isArray(realIp) ? realIp[0] : realIp) || peer;
+}
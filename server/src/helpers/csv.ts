@@ -0,0 +1,67 @@
+// RFC 4180 CSV parsing: quoted fields may contain the delimiter, line breaks and doubled quotes.
+// A leading UTF-8 BOM (as written by Excel) is ignored.
+export function parseCSV(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  // Last line without a trailing newline
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Quotes a field only when it holds the delimiter, a quote or a line break; quotes inside are doubled
+export function formatCSVField(value: string, delimiter: string = ','): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// One RFC 4180 record, terminated by CRLF
+export function formatCSVRow(fields: string[], delimiter: string = ','): string {
+  return fields.map(field => formatCSVField(field, delimiter)).join(delimiter) + '\r\n';
+}
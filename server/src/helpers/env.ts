@@ -0,0 +1,6 @@
+// Integer setting from the environment. Missing, malformed and out of range values fall back
+// to the default instead of turning into NaN further down.
+export function readIntEnv(name: string, fallback: number, min = 1): number {
+  const value = Number(process.env[name]?.trim() || NaN);
+  return Number.isInteger(value) && value >= min ? value : fallback;
+}
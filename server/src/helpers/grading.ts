@@ -0,0 +1,128 @@
+import { type AnswerValue, type NumericKey, type PassStatus, type QuestionType, type ShortAnswerKey } from '../schema';
+import { toOriginalChoice } from './attempt-layout';
+
+export interface GradableQuestion {
+  tipe: QuestionType;
+  pilihan: unknown;
+  jawaban_benar: string | null;
+  kunci_jawaban: unknown;
+  jawaban_alternatif?: unknown;
+}
+
+const toList = (answer: AnswerValue): string[] =>
+  Array.isArray(answer) ? answer : answer.split(',');
+
+const normalizeText = (text: string): string => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Accepts a decimal comma as well as a point, e.g. "3,5"
+function parseNumber(answer: string): number | null {
+  const trimmed = answer.trim().replace(',', '.');
+  if (trimmed === '') {
+    return null;
+  }
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+function gradeShortAnswer(key: ShortAnswerKey, answer: string): number {
+  const normalized = normalizeText(answer);
+  if (normalized === '') {
+    return 0;
+  }
+  if (key.accepted.some(accepted => normalizeText(accepted) === normalized)) {
+    return 1;
+  }
+  const matches = key.patterns.some(pattern => {
+    try {
+      return new RegExp(`^(?:${pattern})$`, 'i').test(answer.trim().replace(/\s+/g, ' '));
+    } catch {
+      return false;
+    }
+  });
+  return matches ? 1 : 0;
+}
+
+// Credit for one answer between 0 and 1. Letters are the ones the participant saw; order maps
+// them back to the stored options (see getOptionOrder).
+// - multiple_choice / true_false: jawaban_alternatif letters count as correct too
+// - multiple_answer: each correct pick earns a share, each wrong pick cancels one, never below 0
+// - matching: a share for each correctly matched pair
+// - ordering: all or nothing
+// - essay: nothing here; points are awarded by hand (see handlers/essay-grading)
+export function gradeAnswer(question: GradableQuestion, answer: AnswerValue | undefined, order: number[] | undefined): number {
+  if (answer === undefined || answer === null) {
+    return 0;
+  }
+
+  switch (question.tipe) {
+    case 'multiple_choice':
+    case 'true_false': {
+      if (Array.isArray(answer)) {
+        return 0;
+      }
+      const choice = toOriginalChoice(order, answer);
+      const alternatives = (question.jawaban_alternatif as string[] | null | undefined) ?? [];
+      return choice === question.jawaban_benar || alternatives.includes(choice) ? 1 : 0;
+    }
+
+    case 'multiple_answer': {
+      const key = new Set((question.jawaban_benar ?? '').split(','));
+      const picked = new Set(toList(answer).map(choice => toOriginalChoice(order, choice)));
+      let hits = 0;
+      let misses = 0;
+      for (const choice of picked) {
+        if (key.has(choice)) hits++;
+        else misses++;
+      }
+      return Math.max(0, (hits - misses) / key.size);
+    }
+
+    case 'short_answer': {
+      if (Array.isArray(answer)) {
+        return 0;
+      }
+      return gradeShortAnswer(question.kunci_jawaban as ShortAnswerKey, answer);
+    }
+
+    case 'numeric': {
+      if (Array.isArray(answer)) {
+        return 0;
+      }
+      const key = question.kunci_jawaban as NumericKey;
+      const value = parseNumber(answer);
+      // A small epsilon so 0.1 + 0.2 style rounding does not fail an exact answer
+      return value !== null && Math.abs(value - key.value) <= key.tolerance + 1e-9 ? 1 : 0;
+    }
+
+    case 'matching': {
+      // answer[i] is the letter of the right-side item picked for left item i
+      const pairs = (question.pilihan as string[]).length;
+      const picks = toList(answer);
+      let correct = 0;
+      for (let i = 0; i < pairs; i++) {
+        if (picks[i] !== undefined && toOriginalChoice(order, picks[i]) === String.fromCharCode(65 + i)) {
+          correct++;
+        }
+      }
+      return pairs > 0 ? correct / pairs : 0;
+    }
+
+    case 'ordering': {
+      // answer lists the letters of the items in the order the participant put them
+      const items = (question.pilihan as string[]).length;
+      const picks = toList(answer).map(choice => toOriginalChoice(order, choice));
+      return picks.length === items && picks.every((choice, index) => choice === String.fromCharCode(65 + index)) ? 1 : 0;
+    }
+
+    case 'essay':
+      return 0;
+  }
+}
+
+// Pass/fail against the exam's KKM; nothing to say without a pass mark or a final nilai
+export function passStatus(nilai: number | null, kkm: number | null): PassStatus | null {
+  if (nilai === null || kkm === null) {
+    return null;
+  }
+  return nilai >= kkm ? 'lulus' : 'tidak_lulus';
+}
@@ -0,0 +1,216 @@
+// Failed-login counters keyed by account (`account:<email>`) or client address (`ip:<address>`).
+// Counters lapse after a quiet lockout period. Password reset requests are counted in the same
+// store under `reset:` keys.
+// The default store keeps them in process memory; a shared store (e.g. a Postgres table)
+// can be installed with setLoginThrottleStore() when running more than one server process.
+
+import { readIntEnv } from './env';
+
+export interface LoginThrottleState {
+  failures: number;
+  blocked_until: Date | null;
+  expires_at: Date; // The count starts over after this, so the entry can be dropped
+}
+
+export interface LoginThrottleStore {
+  // Returns null once the entry has expired
+  get(key: string): Promise<LoginThrottleState | null>;
+  // Adds one failure and returns the new state in a single atomic step (a shared store would use
+  // an upsert with RETURNING). An expired entry starts over at one. The entry lives until expiresAt.
+  increment(key: string, expiresAt: Date): Promise<LoginThrottleState>;
+  // Takes one failure back, e.g. for an attempt that was counted up front and then succeeded
+  decrement(key: string): Promise<void>;
+  // Blocks the key until the given time, keeping a later block that is already in place
+  block(key: string, blockedUntil: Date): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class MemoryLoginThrottleStore implements LoginThrottleStore {
+  private states = new Map<string, LoginThrottleState>();
+  private lastPrune = 0;
+
+  async get(key: string): Promise<LoginThrottleState | null> {
+    this.prune();
+    return this.live(key);
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<LoginThrottleState> {
+    this.prune();
+    const previous = this.live(key);
+    const state = {
+      failures: (previous?.failures ?? 0) + 1,
+      blocked_until: previous?.blocked_until ?? null,
+      expires_at: previous && previous.expires_at > expiresAt ? previous.expires_at : expiresAt
+    };
+    this.states.set(key, state);
+    return { ...state };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const state = this.live(key);
+    if (state) {
+      state.failures = Math.max(0, state.failures - 1);
+    }
+  }
+
+  async block(key: string, blockedUntil: Date): Promise<void> {
+    const state = this.live(key);
+    if (state && (!state.blocked_until || state.blocked_until < blockedUntil)) {
+      state.blocked_until = blockedUntil;
+      if (state.expires_at < blockedUntil) {
+        state.expires_at = blockedUntil;
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key);
+  }
+
+  private live(key: string): LoginThrottleState | null {
+    const state = this.states.get(key);
+    if (state && state.expires_at.getTime() <= Date.now()) {
+      this.states.delete(key);
+      return null;
+    }
+    return state ?? null;
+  }
+
+  // Drops every expired entry, at most once a minute, so counters for addresses and
+  // accounts that never come back do not pile up
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrune = now;
+    for (const [key, state] of this.states) {
+      if (state.expires_at.getTime() <= now) {
+        this.states.delete(key);
+      }
+    }
+  }
+}
+
+let store: LoginThrottleStore = new MemoryLoginThrottleStore();
+
+export function getLoginThrottleStore(): LoginThrottleStore {
+  return store;
+}
+
+export function setLoginThrottleStore(newStore: LoginThrottleStore): void {
+  store = newStore;
+}
+
+function getConfig() {
+  return {
+    backoffAfter: readIntEnv('LOGIN_BACKOFF_AFTER', 3, 0), // Failures allowed before delays start
+    maxAccountFailures: readIntEnv('LOGIN_MAX_FAILURES', 5),
+    // Schools often share one public address, so the per-address limit is much higher
+    maxIpFailures: readIntEnv('LOGIN_MAX_IP_FAILURES', 50),
+    lockoutMinutes: readIntEnv('LOGIN_LOCKOUT_MINUTES', 15)
+  };
+}
+
+export function accountThrottleKey(email: string): string {
+  return `account:${email.toLowerCase()}`;
+}
+
+export function ipThrottleKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+// Returns the latest time any of the keys is blocked until, or null when login may proceed
+export async function getLoginBlockedUntil(keys: string[]): Promise<Date | null> {
+  const now = Date.now();
+  let blockedUntil: Date | null = null;
+
+  for (const key of keys) {
+    const state = await store.get(key);
+    if (state?.blocked_until && state.blocked_until.getTime() > now) {
+      if (!blockedUntil || state.blocked_until > blockedUntil) {
+        blockedUntil = state.blocked_until;
+      }
+    }
+  }
+
+  return blockedUntil;
+}
+
+function maxFailuresFor(key: string): number {
+  const config = getConfig();
+  return key.startsWith('ip:') ? config.maxIpFailures : config.maxAccountFailures;
+}
+
+// Counts the attempt against every key before the password is checked. Each count is taken
+// atomically, so parallel guesses cannot all slip in under the limit. Returns the new counts,
+// or null (with the attempt taken back) when a key is already at its limit.
+export async function reserveLoginAttempt(keys: string[]): Promise<number[] | null> {
+  // Failures are forgotten after a quiet lockout period, and a lockout ends with its entry
+  const expiresAt = new Date(Date.now() + getConfig().lockoutMinutes * 60 * 1000);
+  const counts: number[] = [];
+
+  for (const key of keys) {
+    counts.push((await store.increment(key, expiresAt)).failures);
+  }
+
+  if (keys.some((key, i) => counts[i] > maxFailuresFor(key))) {
+    for (const key of keys) {
+      await store.decrement(key);
+    }
+    return null;
+  }
+  return counts;
+}
+
+// Applies the backoff or lockout for a reserved attempt that turned out to be a failure
+export async function recordLoginFailure(key: string, failures: number): Promise<void> {
+  const config = getConfig();
+
+  if (failures >= maxFailuresFor(key)) {
+    await store.block(key, new Date(Date.now() + config.lockoutMinutes * 60 * 1000));
+  } else if (failures >= config.backoffAfter) {
+    // Exponential backoff: 1s, 2s, 4s, ... between the backoff threshold and the lockout
+    await store.block(key, new Date(Date.now() + Math.pow(2, failures - config.backoffAfter) * 1000));
+  }
+}
+
+// Takes back a reserved attempt that succeeded
+export async function releaseLoginAttempt(key: string): Promise<void> {
+  await store.decrement(key);
+}
+
+export async function clearLoginFailures(key: string): Promise<void> {
+  await store.delete(key);
+}
+
+function getPasswordResetConfig() {
+  return {
+    maxAccountRequests: readIntEnv('PASSWORD_RESET_MAX_REQUESTS', 3),
+    maxIpRequests: readIntEnv('PASSWORD_RESET_MAX_IP_REQUESTS', 20),
+    windowMinutes: readIntEnv('PASSWORD_RESET_WINDOW_MINUTES', 60)
+  };
+}
+
+// Counts a password reset request against the email and the client address. Unknown emails
+// count too, so the limit says nothing about which accounts exist. Returns false once either
+// counter is over its limit; the counters lapse after a quiet window.
+export async function allowPasswordResetRequest(email: string, ipAddress: string | null): Promise<boolean> {
+  const config = getPasswordResetConfig();
+  const expiresAt = new Date(Date.now() + config.windowMinutes * 60 * 1000);
+
+  const accountCount = (await store.increment(`reset:${accountThrottleKey(email)}`, expiresAt)).failures;
+  if (accountCount > config.maxAccountRequests) {
+    return false;
+  }
+
+  if (ipAddress) {
+    const ipCount = (await store.increment(`reset:${ipThrottleKey(ipAddress)}`, expiresAt)).failures;
+    if (ipCount > config.maxIpRequests) {
+      return false;
+    }
+  }
+  return true;
+}
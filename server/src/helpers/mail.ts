@@ -0,0 +1,103 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Local development: prints the message to the server log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Local development: writes each message to its own file in a directory
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2)}.txt`;
+    const content = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await writeFile(join(this.directory, fileName), content, 'utf8');
+  }
+}
+
+export interface SmtpMailOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(private options: SmtpMailOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+// Chosen by MAIL_TRANSPORT (console, file or smtp); console when unset
+export function createMailTransportFromEnv(): MailTransport {
+  const kind = process.env['MAIL_TRANSPORT'] || 'console';
+
+  if (kind === 'file') {
+    return new FileMailTransport(process.env['MAIL_FILE_DIR'] || './mail');
+  }
+
+  if (kind === 'smtp') {
+    return new SmtpMailTransport({
+      host: process.env['SMTP_HOST'] || 'localhost',
+      port: parseInt(process.env['SMTP_PORT'] || '587', 10),
+      secure: process.env['SMTP_SECURE'] === 'true',
+      user: process.env['SMTP_USER'],
+      pass: process.env['SMTP_PASS'],
+      from: process.env['MAIL_FROM'] || 'no-reply@localhost'
+    });
+  }
+
+  // The console transport puts working reset links into the server log
+  if (process.env['NODE_ENV'] === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set to smtp or file in production');
+  }
+
+  return new ConsoleMailTransport();
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createMailTransportFromEnv();
+  }
+  return transport;
+}
+
+export function setMailTransport(newTransport: MailTransport): void {
+  transport = newTransport;
+}
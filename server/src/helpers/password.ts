@@ -0,0 +1,124 @@
+import { randomBytes, scrypt, pbkdf2, timingSafeEqual, type ScryptOptions } from 'crypto';
+import { readIntEnv } from './env';
+
+// Stored formats (colon-separated, hex-encoded salt and hash):
+//   scrypt:<N>:<r>:<p>:<salt>:<hash>       current default
+//   pbkdf2:<digest>:<iterations>:<salt>:<hash>
+//   <salt>:<hash>                          legacy PBKDF2-SHA512, 10000 iterations
+//   <base64 of the plain password>         legacy users.ts "hash", verified once then rehashed
+
+type PasswordAlgorithm = 'scrypt' | 'pbkdf2';
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const LEGACY_PBKDF2_ITERATIONS = 10000;
+
+// Read on every call so the configuration can be changed through process.env at runtime
+function getConfig() {
+  const algorithm: PasswordAlgorithm = process.env['PASSWORD_HASH_ALGORITHM'] === 'pbkdf2' ? 'pbkdf2' : 'scrypt';
+  return {
+    algorithm,
+    scrypt: {
+      N: readIntEnv('PASSWORD_SCRYPT_COST', 16384),
+      r: readIntEnv('PASSWORD_SCRYPT_BLOCK_SIZE', 8),
+      p: readIntEnv('PASSWORD_SCRYPT_PARALLELISM', 1)
+    },
+    pbkdf2: {
+      digest: 'sha512',
+      iterations: readIntEnv('PASSWORD_PBKDF2_ITERATIONS', 210000)
+    }
+  };
+}
+
+function scryptAsync(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes, otherwise Node rejects higher cost factors
+    const maxmem = 256 * (options.N || 16384) * (options.r || 8);
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem }, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+function pbkdf2Async(password: string, salt: Buffer | string, iterations: number, digest: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    pbkdf2(password, salt, iterations, KEY_LENGTH, digest, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+function safeEqualHex(a: Buffer, expectedHex: string): boolean {
+  const expected = Buffer.from(expectedHex, 'hex');
+  return expected.length === a.length && timingSafeEqual(a, expected);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const config = getConfig();
+  const salt = randomBytes(SALT_LENGTH);
+
+  if (config.algorithm === 'pbkdf2') {
+    const { digest, iterations } = config.pbkdf2;
+    const hash = await pbkdf2Async(password, salt, iterations, digest);
+    return `pbkdf2:${digest}:${iterations}:${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  const { N, r, p } = config.scrypt;
+  const hash = await scryptAsync(password, salt, { N, r, p });
+  return `scrypt:${N}:${r}:${p}:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  try {
+    const parts = storedHash.split(':');
+
+    if (parts[0] === 'scrypt' && parts.length === 6) {
+      const [, N, r, p, salt, hash] = parts;
+      const key = await scryptAsync(password, Buffer.from(salt, 'hex'), {
+        N: parseInt(N, 10),
+        r: parseInt(r, 10),
+        p: parseInt(p, 10)
+      });
+      return safeEqualHex(key, hash);
+    }
+
+    if (parts[0] === 'pbkdf2' && parts.length === 5) {
+      const [, digest, iterations, salt, hash] = parts;
+      const key = await pbkdf2Async(password, Buffer.from(salt, 'hex'), parseInt(iterations, 10), digest);
+      return safeEqualHex(key, hash);
+    }
+
+    if (parts.length === 2) {
+      // Legacy auth.ts format: the salt was used as a hex string, not decoded bytes
+      const [salt, hash] = parts;
+      const key = await pbkdf2Async(password, salt, LEGACY_PBKDF2_ITERATIONS, 'sha512');
+      return safeEqualHex(key, hash);
+    }
+
+    if (parts.length === 1) {
+      // Legacy users.ts format: base64 of the plain password
+      const expected = Buffer.from(Buffer.from(password).toString('base64'));
+      const actual = Buffer.from(storedHash);
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    return false; // Unknown hash format
+  } catch (error) {
+    console.error('Password verification failed:', error);
+    return false;
+  }
+}
+
+// True when a hash that just verified should be replaced with one using the current configuration
+export function needsRehash(storedHash: string): boolean {
+  const config = getConfig();
+  const parts = storedHash.split(':');
+
+  if (parts[0] !== config.algorithm) {
+    return true; // Legacy formats or a different configured algorithm
+  }
+
+  if (parts[0] === 'scrypt') {
+    const [, N, r, p] = parts.map(part => parseInt(part, 10));
+    return N < config.scrypt.N || r < config.scrypt.r || p < config.scrypt.p;
+  }
+
+  const [, digest, iterations] = parts;
+  return digest !== config.pbkdf2.digest || parseInt(iterations, 10) < config.pbkdf2.iterations;
+}
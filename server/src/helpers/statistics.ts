@@ -0,0 +1,108 @@
+// Descriptive statistics over plain number lists. Variances are population variances (divided by
+// n), as item analysis formulas such as KR-20 expect.
+
+export function mean(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function variance(values: number[]): number | null {
+  const average = mean(values);
+  if (average === null) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number | null {
+  const spread = variance(values);
+  return spread === null ? null : Math.sqrt(spread);
+}
+
+// Quantile by linear interpolation between the closest ranks, e.g. 0.25 for the first quartile
+export function quantile(values: number[], q: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export const median = (values: number[]): number | null => quantile(values, 0.5);
+
+// Every most frequent value, ascending; empty without values
+export function modes(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const highest = Math.max(0, ...counts.values());
+  return [...counts.entries()]
+    .filter(([, count]) => count === highest)
+    .map(([value]) => value)
+    .sort((a, b) => a - b);
+}
+
+// Counts values into buckets of the given width from 0 to max; the last bucket includes max
+export function histogram(values: number[], bucketSize: number, max: number): { from: number; to: number; count: number }[] {
+  const buckets: { from: number; to: number; count: number }[] = [];
+  for (let from = 0; from < max; from += bucketSize) {
+    buckets.push({ from, to: Math.min(from + bucketSize, max), count: 0 });
+  }
+  for (const value of values) {
+    const index = Math.min(Math.floor(value / bucketSize), buckets.length - 1);
+    if (index >= 0) {
+      buckets[index].count++;
+    }
+  }
+  return buckets;
+}
+
+// Pearson correlation of paired values; null when either side does not vary
+export function correlation(xs: number[], ys: number[]): number | null {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  if (meanX === null || meanY === null || xs.length !== ys.length || xs.length < 2) {
+    return null;
+  }
+
+  let covariance = 0;
+  let sumSquaresX = 0;
+  let sumSquaresY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    sumSquaresX += (xs[i] - meanX) ** 2;
+    sumSquaresY += (ys[i] - meanY) ** 2;
+  }
+
+  if (sumSquaresX === 0 || sumSquaresY === 0) {
+    return null;
+  }
+  return covariance / Math.sqrt(sumSquaresX * sumSquaresY);
+}
+
+// Cronbach's alpha of a respondents × items score matrix; with 0/1 scores this equals KR-20
+export function cronbachAlpha(scores: number[][]): number | null {
+  const items = scores[0]?.length ?? 0;
+  if (scores.length < 2 || items < 2) {
+    return null;
+  }
+
+  const itemVariances = Array.from({ length: items }, (_, item) => variance(scores.map(row => row[item])) ?? 0);
+  const totalVariance = variance(scores.map(row => row.reduce((sum, score) => sum + score, 0))) ?? 0;
+  if (totalVariance === 0) {
+    return null;
+  }
+
+  const sumItemVariances = itemVariances.reduce((sum, value) => sum + value, 0);
+  return (items / (items - 1)) * (1 - sumItemVariances / totalVariance);
+}
+
+// Rounds a statistic for display, keeping nulls
+export const roundStatistic = (value: number | null, digits = 3): number | null =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
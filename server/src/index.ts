@@ -1,8 +1,13 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
+import { z } from 'zod';
+import { userRoleEnum } from './db/schema';
+import { getClientIp } from './helpers/client-ip';
+import { getMailTransport } from './helpers/mail';
+import { readIntEnv } from './helpers/env';
 
 // Import schemas
 import { 
@@ -21,11 +26,77 @@ import {
   getUserAnswerInputSchema,
   getExamResultsInputSchema,
   deleteByIdInputSchema,
-  userRoleSchema
+  userRoleSchema,
+  userProfileSchema,
+  loginResponseSchema,
+  loginAttemptSchema,
+  getLoginAttemptsInputSchema,
+  changeOwnPasswordInputSchema,
+  requestPasswordResetInputSchema,
+  confirmPasswordResetInputSchema,
+  importUsersInputSchema,
+  importUsersResultSchema,
+  classSchema,
+  createClassInputSchema,
+  updateClassInputSchema,
+  assignUsersToClassInputSchema,
+  migrateLegacyKelasResultSchema,
+  examSchema,
+  examAssignmentsSchema,
+  setExamAssignmentsInputSchema,
+  getExamAssignmentsInputSchema,
+  attemptStatusSchema,
+  getAttemptStatusInputSchema,
+  autoSubmitResultSchema,
+  subjectSchema,
+  createSubjectInputSchema,
+  bankQuestionSchema,
+  bankQuestionVersionSchema,
+  createBankQuestionInputSchema,
+  updateBankQuestionInputSchema,
+  searchBankQuestionsInputSchema,
+  addBankQuestionsToExamInputSchema,
+  questionSchema,
+  essayGradeSchema,
+  ungradedEssayResponseSchema,
+  gradeEssayInputSchema,
+  getEssayGradesInputSchema,
+  regradeLogSchema,
+  regradeResultSchema,
+  regradeExamInputSchema,
+  deleteQuestionInputSchema,
+  itemAnalysisSchema,
+  getExamStatisticsInputSchema,
+  examStatisticsSchema,
+  getClassReportInputSchema,
+  classReportSchema,
+  getParticipantReportInputSchema,
+  participantReportSchema,
+  exportExamResultsInputSchema,
+  type UserProfile
 } from './schema';
 
 // Import handlers
-import { loginUser } from './handlers/auth';
+import { 
+  login, 
+  getSessionUser, 
+  revokeSession, 
+  refreshSession, 
+  unlockAccount, 
+  getLoginAttempts 
+} from './handlers/auth';
+import { requestPasswordReset, confirmPasswordReset } from './handlers/password-reset';
+import { importUsers } from './handlers/user-import';
+import { 
+  createClass, 
+  getAllClasses, 
+  getClassById, 
+  updateClass, 
+  deleteClass, 
+  getClassMembers, 
+  assignUsersToClass, 
+  migrateLegacyKelas 
+} from './handlers/classes';
 import { 
   createUser, 
   getAllUsers, 
@@ -33,7 +104,8 @@ import {
   getUserById, 
   updateUser, 
   deleteUser, 
-  resetUserPassword 
+  resetUserPassword, 
+  changeOwnPassword 
 } from './handlers/users';
 import { 
   createExam, 
@@ -44,6 +116,12 @@ import {
   deleteExam, 
   getExamsForParticipant 
 } from './handlers/exams';
+import { 
+  getExamAssignments, 
+  setExamAssignments, 
+  getExamParticipants, 
+  isExamAssignedToUser 
+} from './handlers/exam-assignments';
 import { 
   createQuestion, 
   getQuestionsByExamId, 
@@ -52,28 +130,102 @@ import {
   deleteQuestion, 
   getQuestionsForParticipant 
 } from './handlers/questions';
+import { getUngradedEssayResponses, gradeEssay, getEssayGrades } from './handlers/essay-grading';
+import { regradeExam, getRegradeLogs } from './handlers/regrade';
+import { getItemAnalysis } from './handlers/item-analysis';
+import { 
+  createSubject, 
+  getAllSubjects, 
+  deleteSubject, 
+  createBankQuestion, 
+  getBankQuestionById, 
+  getBankQuestionVersions, 
+  updateBankQuestion, 
+  deleteBankQuestion, 
+  searchBankQuestions, 
+  addBankQuestionsToExam 
+} from './handlers/question-bank';
 import { 
   createAnswer, 
   getUserAnswer, 
   updateProgress, 
   submitExam, 
+  getAttemptStatus, 
+  autoSubmitExpiredAttempts, 
   getAnswersByExamId 
 } from './handlers/answers';
 import { 
   getDashboardStats, 
   getExamResults, 
+  getExamStatistics,
+  getClassReport,
+  getParticipantReport,
   getAllExamResults, 
-  exportExamResultsToCSV 
+  exportExamResultsToCSV,
+  streamExamResultsCSV,
+  exportExamResultsToXLSX
 } from './handlers/dashboard';
 
-const t = initTRPC.create({
+// Resolve the current user from the `Authorization: Bearer <token>` header
+async function createContext({ req }: CreateHTTPContextOptions): Promise<{ user: UserProfile | null; token: string | null; ip: string | null }> {
+  const ip = getClientIp(req);
+
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+
+  if (!token) {
+    return { user: null, token: null, ip };
+  }
+
+  const user = await getSessionUser(token);
+  return { user, token: user ? token : null, ip };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
-const appRouter = router({
+// Requires a valid session; narrows ctx.user and ctx.token to non-null
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Login required' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user, token: ctx.token } });
+});
+
+// Requires a valid session belonging to the given role
+const roleProcedure = (role: (typeof userRoleEnum.enumValues)[number]) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    if (ctx.user.role !== role) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Only ${role} users may perform this action` });
+    }
+    return next();
+  });
+
+const adminProcedure = roleProcedure('admin');
+const pesertaProcedure = roleProcedure('peserta');
+
+// Starting an exam is refused until an admin-assigned password has been replaced
+const examStartProcedure = pesertaProcedure.use(({ ctx, next }) => {
+  if (ctx.user.must_change_password) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Password change required before starting an exam' });
+  }
+  return next();
+});
+
+// Participants may only open exams assigned to them; admins see every exam
+async function assertExamAssigned(user: UserProfile, examId: number): Promise<void> {
+  if (user.role !== 'admin' && !(await isExamAssignedToUser(examId, user.id))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Exam is not assigned to you' });
+  }
+}
+
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -82,140 +234,389 @@ const appRouter = router({
   // Authentication routes
   login: publicProcedure
     .input(loginInputSchema)
-    .mutation(({ input }) => loginUser(input)),
+    .output(loginResponseSchema.nullable())
+    .mutation(({ input, ctx }) => login(input, ctx.ip)),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => revokeSession(ctx.token)),
+
+  me: protectedProcedure
+    .output(userProfileSchema)
+    .query(({ ctx }) => ctx.user),
+
+  refreshSession: protectedProcedure
+    .output(loginResponseSchema)
+    .mutation(({ ctx }) => refreshSession(ctx.token)),
+
+  changeOwnPassword: protectedProcedure
+    .input(changeOwnPasswordInputSchema)
+    .output(userProfileSchema)
+    .mutation(({ input, ctx }) => changeOwnPassword(ctx.user.id, input)),
+
+  requestPasswordReset: publicProcedure
+    .input(requestPasswordResetInputSchema)
+    .mutation(({ input, ctx }) => requestPasswordReset(input, ctx.ip)),
+
+  confirmPasswordReset: publicProcedure
+    .input(confirmPasswordResetInputSchema)
+    .mutation(({ input }) => confirmPasswordReset(input)),
 
   // User management routes
-  createUser: publicProcedure
+  createUser: adminProcedure
     .input(createUserInputSchema)
+    .output(userProfileSchema)
     .mutation(({ input }) => createUser(input)),
 
-  getAllUsers: publicProcedure
+  getAllUsers: adminProcedure
+    .output(z.array(userProfileSchema))
     .query(() => getAllUsers()),
 
-  getUsersByRole: publicProcedure
+  getUsersByRole: adminProcedure
     .input(userRoleSchema)
+    .output(z.array(userProfileSchema))
     .query(({ input }) => getUsersByRole(input)),
 
-  getUserById: publicProcedure
+  getUserById: adminProcedure
     .input(deleteByIdInputSchema)
+    .output(userProfileSchema.nullable())
     .query(({ input }) => getUserById(input.id)),
 
-  updateUser: publicProcedure
+  updateUser: adminProcedure
     .input(updateUserInputSchema)
+    .output(userProfileSchema)
     .mutation(({ input }) => updateUser(input)),
 
-  deleteUser: publicProcedure
+  deleteUser: adminProcedure
     .input(deleteByIdInputSchema)
     .mutation(({ input }) => deleteUser(input.id)),
 
-  resetUserPassword: publicProcedure
+  resetUserPassword: adminProcedure
     .input(resetPasswordInputSchema)
+    .output(userProfileSchema)
     .mutation(({ input }) => resetUserPassword(input)),
 
+  importUsers: adminProcedure
+    .input(importUsersInputSchema)
+    .output(importUsersResultSchema)
+    .mutation(({ input }) => importUsers(input)),
+
+  unlockAccount: adminProcedure
+    .input(deleteByIdInputSchema)
+    .mutation(({ input }) => unlockAccount(input.id)),
+
+  getLoginAttempts: adminProcedure
+    .input(getLoginAttemptsInputSchema)
+    .output(z.array(loginAttemptSchema))
+    .query(({ input }) => getLoginAttempts(input)),
+
+  // Class management routes
+  createClass: adminProcedure
+    .input(createClassInputSchema)
+    .output(classSchema)
+    .mutation(({ input }) => createClass(input)),
+
+  getAllClasses: adminProcedure
+    .output(z.array(classSchema))
+    .query(() => getAllClasses()),
+
+  getClassById: adminProcedure
+    .input(deleteByIdInputSchema)
+    .output(classSchema.nullable())
+    .query(({ input }) => getClassById(input.id)),
+
+  updateClass: adminProcedure
+    .input(updateClassInputSchema)
+    .output(classSchema)
+    .mutation(({ input }) => updateClass(input)),
+
+  deleteClass: adminProcedure
+    .input(deleteByIdInputSchema)
+    .mutation(({ input }) => deleteClass(input.id)),
+
+  getClassMembers: adminProcedure
+    .input(deleteByIdInputSchema)
+    .output(z.array(userProfileSchema))
+    .query(({ input }) => getClassMembers(input.id)),
+
+  assignUsersToClass: adminProcedure
+    .input(assignUsersToClassInputSchema)
+    .output(z.array(userProfileSchema))
+    .mutation(({ input }) => assignUsersToClass(input)),
+
+  migrateLegacyKelas: adminProcedure
+    .output(migrateLegacyKelasResultSchema)
+    .mutation(() => migrateLegacyKelas()),
+
   // Exam management routes
-  createExam: publicProcedure
+  createExam: adminProcedure
     .input(createExamInputSchema)
     .mutation(({ input }) => createExam(input)),
 
-  getAllExams: publicProcedure
+  getAllExams: adminProcedure
     .query(() => getAllExams()),
 
-  getActiveExams: publicProcedure
-    .query(() => getActiveExams()),
+  // Participants only see the exams assigned to them
+  getActiveExams: protectedProcedure
+    .output(z.array(examSchema))
+    .query(({ ctx }) => ctx.user.role === 'admin' ? getActiveExams() : getExamsForParticipant(ctx.user.id)),
 
-  getExamById: publicProcedure
+  getExamById: protectedProcedure
     .input(deleteByIdInputSchema)
-    .query(({ input }) => getExamById(input.id)),
+    .query(async ({ input, ctx }) => {
+      await assertExamAssigned(ctx.user, input.id);
+      return getExamById(input.id);
+    }),
 
-  updateExam: publicProcedure
+  updateExam: adminProcedure
     .input(updateExamInputSchema)
     .mutation(({ input }) => updateExam(input)),
 
-  deleteExam: publicProcedure
+  deleteExam: adminProcedure
     .input(deleteByIdInputSchema)
     .mutation(({ input }) => deleteExam(input.id)),
 
-  getExamsForParticipant: publicProcedure
-    .input(deleteByIdInputSchema)
-    .query(({ input }) => getExamsForParticipant(input.id)),
+  getExamsForParticipant: pesertaProcedure
+    .query(({ ctx }) => getExamsForParticipant(ctx.user.id)),
+
+  getExamAssignments: adminProcedure
+    .input(getExamAssignmentsInputSchema)
+    .output(examAssignmentsSchema)
+    .query(({ input }) => getExamAssignments(input.examId)),
+
+  setExamAssignments: adminProcedure
+    .input(setExamAssignmentsInputSchema)
+    .output(examAssignmentsSchema)
+    .mutation(({ input }) => setExamAssignments(input)),
+
+  getExamParticipants: adminProcedure
+    .input(getExamAssignmentsInputSchema)
+    .output(z.array(userProfileSchema))
+    .query(({ input }) => getExamParticipants(input.examId)),
 
   // Question management routes
-  createQuestion: publicProcedure
+  createQuestion: adminProcedure
     .input(createQuestionInputSchema)
     .mutation(({ input }) => createQuestion(input)),
 
-  getQuestionsByExamId: publicProcedure
+  getQuestionsByExamId: adminProcedure
     .input(getQuestionsByExamInputSchema)
     .query(({ input }) => getQuestionsByExamId(input)),
 
-  getQuestionById: publicProcedure
+  getQuestionById: adminProcedure
     .input(deleteByIdInputSchema)
     .query(({ input }) => getQuestionById(input.id)),
 
-  updateQuestion: publicProcedure
+  updateQuestion: adminProcedure
     .input(updateQuestionInputSchema)
-    .mutation(({ input }) => updateQuestion(input)),
+    .mutation(({ input, ctx }) => updateQuestion(input, ctx.user.id)),
 
-  deleteQuestion: publicProcedure
-    .input(deleteByIdInputSchema)
-    .mutation(({ input }) => deleteQuestion(input.id)),
+  deleteQuestion: adminProcedure
+    .input(deleteQuestionInputSchema)
+    .mutation(({ input, ctx }) => deleteQuestion(input.id, input.regrade, ctx.user.id)),
 
-  getQuestionsForParticipant: publicProcedure
+  getQuestionsForParticipant: protectedProcedure
     .input(getQuestionsByExamInputSchema)
-    .query(({ input }) => getQuestionsForParticipant(input.examId)),
+    .query(async ({ input, ctx }) => {
+      await assertExamAssigned(ctx.user, input.examId);
+      // Participants get their attempt's order and option letters
+      return getQuestionsForParticipant(input.examId, ctx.user.role === 'admin' ? undefined : ctx.user.id);
+    }),
+
+  // Question bank routes
+  createSubject: adminProcedure
+    .input(createSubjectInputSchema)
+    .output(subjectSchema)
+    .mutation(({ input }) => createSubject(input)),
+
+  getAllSubjects: adminProcedure
+    .output(z.array(subjectSchema))
+    .query(() => getAllSubjects()),
+
+  deleteSubject: adminProcedure
+    .input(deleteByIdInputSchema)
+    .mutation(({ input }) => deleteSubject(input.id)),
+
+  createBankQuestion: adminProcedure
+    .input(createBankQuestionInputSchema)
+    .output(bankQuestionSchema)
+    .mutation(({ input }) => createBankQuestion(input)),
+
+  getBankQuestionById: adminProcedure
+    .input(deleteByIdInputSchema)
+    .output(bankQuestionSchema.nullable())
+    .query(({ input }) => getBankQuestionById(input.id)),
+
+  getBankQuestionVersions: adminProcedure
+    .input(deleteByIdInputSchema)
+    .output(z.array(bankQuestionVersionSchema))
+    .query(({ input }) => getBankQuestionVersions(input.id)),
+
+  updateBankQuestion: adminProcedure
+    .input(updateBankQuestionInputSchema)
+    .output(bankQuestionSchema)
+    .mutation(({ input }) => updateBankQuestion(input)),
+
+  deleteBankQuestion: adminProcedure
+    .input(deleteByIdInputSchema)
+    .mutation(({ input }) => deleteBankQuestion(input.id)),
+
+  searchBankQuestions: adminProcedure
+    .input(searchBankQuestionsInputSchema)
+    .output(z.array(bankQuestionSchema))
+    .query(({ input }) => searchBankQuestions(input)),
+
+  addBankQuestionsToExam: adminProcedure
+    .input(addBankQuestionsToExamInputSchema)
+    .output(z.array(questionSchema))
+    .mutation(({ input }) => addBankQuestionsToExam(input)),
 
   // Answer and exam taking routes
-  createAnswer: publicProcedure
+  createAnswer: examStartProcedure
     .input(createAnswerInputSchema)
-    .mutation(({ input }) => createAnswer(input)),
+    .mutation(({ input, ctx }) => createAnswer(input, ctx.user.id)),
 
-  getUserAnswer: publicProcedure
+  getUserAnswer: protectedProcedure
     .input(getUserAnswerInputSchema)
-    .query(({ input }) => getUserAnswer(input)),
-
-  updateProgress: publicProcedure
+    .query(({ input, ctx }) => {
+      if (ctx.user.role !== 'admin' && input.userId !== ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Cannot read another user\'s answers' });
+      }
+      return getUserAnswer(input);
+    }),
+
+  updateProgress: pesertaProcedure
     .input(updateProgressInputSchema)
-    .mutation(({ input }) => updateProgress(input)),
+    .mutation(({ input, ctx }) => updateProgress(input, ctx.user.id)),
 
-  submitExam: publicProcedure
+  submitExam: pesertaProcedure
     .input(submitExamInputSchema)
-    .mutation(({ input }) => submitExam(input)),
+    .mutation(({ input, ctx }) => submitExam(input, ctx.user.id)),
+
+  getAttemptStatus: pesertaProcedure
+    .input(getAttemptStatusInputSchema)
+    .output(attemptStatusSchema)
+    .query(({ input, ctx }) => getAttemptStatus(input, ctx.user.id)),
 
-  getAnswersByExamId: publicProcedure
+  autoSubmitExpiredAttempts: adminProcedure
+    .output(autoSubmitResultSchema)
+    .mutation(() => autoSubmitExpiredAttempts()),
+
+  getAnswersByExamId: adminProcedure
     .input(getQuestionsByExamInputSchema)
     .query(({ input }) => getAnswersByExamId(input.examId)),
 
+  // Essay grading routes
+  getUngradedEssayResponses: adminProcedure
+    .input(getQuestionsByExamInputSchema)
+    .output(z.array(ungradedEssayResponseSchema))
+    .query(({ input }) => getUngradedEssayResponses(input.examId)),
+
+  gradeEssay: adminProcedure
+    .input(gradeEssayInputSchema)
+    .output(essayGradeSchema)
+    .mutation(({ input, ctx }) => gradeEssay(input, ctx.user.id)),
+
+  getEssayGrades: protectedProcedure
+    .input(getEssayGradesInputSchema)
+    .output(z.array(essayGradeSchema))
+    .query(({ input, ctx }) => getEssayGrades(input.answerId, ctx.user)),
+
+  // Regrading routes
+  regradeExam: adminProcedure
+    .input(regradeExamInputSchema)
+    .output(regradeResultSchema)
+    .mutation(({ input, ctx }) => regradeExam(input, ctx.user.id)),
+
+  getRegradeLogs: adminProcedure
+    .input(getQuestionsByExamInputSchema)
+    .output(z.array(regradeLogSchema))
+    .query(({ input }) => getRegradeLogs(input.examId)),
+
+  // Item analysis route
+  getItemAnalysis: adminProcedure
+    .input(getQuestionsByExamInputSchema)
+    .output(itemAnalysisSchema)
+    .query(({ input }) => getItemAnalysis(input.examId)),
+
   // Dashboard and reporting routes
-  getDashboardStats: publicProcedure
+  getDashboardStats: adminProcedure
     .query(() => getDashboardStats()),
 
-  getExamResults: publicProcedure
+  getExamResults: adminProcedure
     .input(getExamResultsInputSchema)
     .query(({ input }) => getExamResults(input)),
 
-  getAllExamResults: publicProcedure
+  getExamStatistics: adminProcedure
+    .input(getExamStatisticsInputSchema)
+    .output(examStatisticsSchema)
+    .query(({ input }) => getExamStatistics(input)),
+
+  getClassReport: adminProcedure
+    .input(getClassReportInputSchema)
+    .output(z.array(classReportSchema))
+    .query(({ input }) => getClassReport(input)),
+
+  getParticipantReport: adminProcedure
+    .input(getParticipantReportInputSchema)
+    .output(participantReportSchema)
+    .query(({ input }) => getParticipantReport(input.userId)),
+
+  getAllExamResults: adminProcedure
     .query(() => getAllExamResults()),
 
-  exportExamResultsToCSV: publicProcedure
-    .input(getQuestionsByExamInputSchema.partial())
-    .query(({ input }) => exportExamResultsToCSV(input.examId)),
+  exportExamResultsToCSV: adminProcedure
+    .input(exportExamResultsInputSchema)
+    .output(z.string())
+    .query(({ input }) => exportExamResultsToCSV(input)),
+
+  // Yields the CSV record by record; read it with httpBatchStreamLink
+  streamExamResultsCSV: adminProcedure
+    .input(exportExamResultsInputSchema)
+    .query(({ input }) => streamExamResultsCSV(input)),
+
+  exportExamResultsToXLSX: adminProcedure
+    .input(exportExamResultsInputSchema)
+    .output(z.string()) // Base64 encoded workbook
+    .query(({ input }) => exportExamResultsToXLSX(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
+// Positive whole numbers only; anything else falls back to the default
 async function start() {
+  // Refuse to start without a usable mail setup rather than failing on the first reset request
+  getMailTransport();
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Submit attempts left open by participants who closed the browser. A tick is skipped while
+  // the previous sweep still runs, so slow sweeps never pile up on each other.
+  let sweeping = false;
+  setInterval(() => {
+    if (sweeping) {
+      return;
+    }
+    sweeping = true;
+    autoSubmitExpiredAttempts()
+      .catch(() => {
+        // Already logged by the handler; the next sweep retries
+      })
+      .finally(() => {
+        sweeping = false;
+      });
+  }, readIntEnv('AUTO_SUBMIT_INTERVAL_SECONDS', 60) * 1000);
 }
 
-start();
\ No newline at end of file
+// Only when run as the entry point, so tests can import the router without starting a server
+if (import.meta.main) {
+  start();
+}
@@ -6,6 +6,35 @@ export const userRoleSchema = z.enum(['admin', 'peserta']);
 // Exam status enum
 export const examStatusSchema = z.enum(['aktif', 'non-aktif']);
 
+// Which attempt counts in results when an exam allows retakes
+export const scorePolicySchema = z.enum(['highest', 'latest', 'average']);
+
+// Question difficulty and the question properties a draw can be stratified by
+export const difficultySchema = z.enum(['mudah', 'sedang', 'sulit']);
+export const drawStrataSchema = z.enum(['topik', 'kesulitan']);
+
+// Pass/fail against the exam's KKM
+export const passStatusSchema = z.enum(['lulus', 'tidak_lulus']);
+
+export type PassStatus = z.infer<typeof passStatusSchema>;
+
+// Question types; letter-keyed types are answered with the letters of the options as displayed
+export const questionTypeSchema = z.enum([
+  'multiple_choice',
+  'multiple_answer',
+  'true_false',
+  'short_answer',
+  'numeric',
+  'matching',
+  'ordering',
+  'essay'
+]);
+
+export type QuestionType = z.infer<typeof questionTypeSchema>;
+
+// How an attempt was submitted: by the participant, or by the server once its deadline passed
+export const submitReasonSchema = z.enum(['submitted', 'auto_submitted']);
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -13,19 +42,29 @@ export const userSchema = z.object({
   email: z.string(),
   password: z.string(),
   role: userRoleSchema,
-  kelas: z.string().nullable(), // Optional for admin
+  kelas: z.string().nullable(), // Class name, null for admin
+  class_id: z.number().nullable(),
+  must_change_password: z.boolean(),
   created_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Public user profile returned by every API procedure (never includes the password hash)
+export const userProfileSchema = userSchema.omit({ password: true });
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+
+// Emails are matched and stored in lower case, whichever way the user typed them
+const emailSchema = z.string().email().toLowerCase();
+
 // Input schema for creating users
 export const createUserInputSchema = z.object({
   nama: z.string(),
-  email: z.string().email(),
+  email: emailSchema,
   password: z.string().min(6),
   role: userRoleSchema,
-  kelas: z.string().nullable().optional() // Can be null or undefined
+  class_id: z.number().nullable().optional() // Can be null or undefined
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
@@ -34,21 +73,91 @@ export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 export const updateUserInputSchema = z.object({
   id: z.number(),
   nama: z.string().optional(),
-  email: z.string().email().optional(),
+  email: emailSchema.optional(),
   password: z.string().min(6).optional(),
-  kelas: z.string().nullable().optional()
+  class_id: z.number().nullable().optional()
 });
 
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
 
 // Login input schema
 export const loginInputSchema = z.object({
-  email: z.string().email(),
+  email: emailSchema,
   password: z.string()
 });
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Class schema
+export const classSchema = z.object({
+  id: z.number(),
+  nama: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Class = z.infer<typeof classSchema>;
+
+// Input schema for creating classes
+export const createClassInputSchema = z.object({
+  nama: z.string().trim().min(1)
+});
+
+export type CreateClassInput = z.infer<typeof createClassInputSchema>;
+
+// Input schema for updating classes
+export const updateClassInputSchema = z.object({
+  id: z.number(),
+  nama: z.string().trim().min(1)
+});
+
+export type UpdateClassInput = z.infer<typeof updateClassInputSchema>;
+
+// Input schema for moving users into a class (classId null removes them from any class)
+export const assignUsersToClassInputSchema = z.object({
+  classId: z.number().nullable(),
+  userIds: z.array(z.number()).min(1)
+});
+
+export type AssignUsersToClassInput = z.infer<typeof assignUsersToClassInputSchema>;
+
+// Result of converting legacy free-text kelas values into class rows
+export const migrateLegacyKelasResultSchema = z.object({
+  classesCreated: z.number().int(),
+  usersMigrated: z.number().int()
+});
+
+export type MigrateLegacyKelasResult = z.infer<typeof migrateLegacyKelasResultSchema>;
+
+// Login response schema (user plus the issued session token)
+export const loginResponseSchema = z.object({
+  user: userProfileSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+// Login attempt schema
+export const loginAttemptSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  user_id: z.number().nullable(),
+  ip_address: z.string().nullable(),
+  success: z.boolean(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+// Input schema for viewing login attempt history
+export const getLoginAttemptsInputSchema = z.object({
+  email: z.string().toLowerCase().optional(),
+  limit: z.number().int().positive().max(500).default(100)
+});
+
+export type GetLoginAttemptsInput = z.infer<typeof getLoginAttemptsInputSchema>;
+
 // Reset password input schema
 export const resetPasswordInputSchema = z.object({
   id: z.number(),
@@ -57,6 +166,64 @@ export const resetPasswordInputSchema = z.object({
 
 export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
 
+// Change own password input schema
+export const changeOwnPasswordInputSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: z.string().min(6)
+});
+
+export type ChangeOwnPasswordInput = z.infer<typeof changeOwnPasswordInputSchema>;
+
+// Request password reset input schema
+export const requestPasswordResetInputSchema = z.object({
+  email: emailSchema
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+// Confirm password reset input schema
+export const confirmPasswordResetInputSchema = z.object({
+  token: z.string(),
+  newPassword: z.string().min(6)
+});
+
+export type ConfirmPasswordResetInput = z.infer<typeof confirmPasswordResetInputSchema>;
+
+// Input schema for bulk participant import
+export const importUsersInputSchema = z.object({
+  format: z.enum(['csv', 'xlsx']),
+  content: z.string(), // CSV text, or the XLSX workbook encoded as base64
+  dryRun: z.boolean().default(false),
+  createMissingClasses: z.boolean().default(false) // Otherwise unknown kelas names are row errors
+});
+
+export type ImportUsersInput = z.infer<typeof importUsersInputSchema>;
+
+// Per-row outcome of a bulk import (row numbers match the spreadsheet, header is row 1)
+export const importUserRowSchema = z.object({
+  row: z.number().int(),
+  nama: z.string(),
+  email: z.string(),
+  kelas: z.string().nullable(),
+  status: z.enum(['valid', 'imported', 'error']),
+  errors: z.array(z.string()),
+  password: z.string().nullable(), // Only filled for imported rows, for the credential sheet
+  passwordGenerated: z.boolean()
+});
+
+export type ImportUserRow = z.infer<typeof importUserRowSchema>;
+
+export const importUsersResultSchema = z.object({
+  dryRun: z.boolean(),
+  totalRows: z.number().int(),
+  importedCount: z.number().int(),
+  errorCount: z.number().int(),
+  rows: z.array(importUserRowSchema),
+  credentialSheet: z.string() // Plain-text sheet to print and hand out, empty on dry run
+});
+
+export type ImportUsersResult = z.infer<typeof importUsersResultSchema>;
+
 // Exam schema
 export const examSchema = z.object({
   id: z.number(),
@@ -66,6 +233,14 @@ export const examSchema = z.object({
   tanggal_selesai: z.coerce.date(),
   durasi: z.number().int().positive(), // Duration in minutes
   status: examStatusSchema,
+  max_attempts: z.number().int().positive(),
+  retake_cooldown_minutes: z.number().int().nonnegative(),
+  score_policy: scorePolicySchema,
+  shuffle_questions: z.boolean(),
+  shuffle_options: z.boolean(),
+  draw_count: z.number().int().positive().nullable(), // Questions drawn per attempt, null for all
+  draw_stratify_by: drawStrataSchema.nullable(),
+  kkm: z.number().int().min(0).max(100).nullable(), // Passing score (Kriteria Ketuntasan Minimal), null for no pass mark
   created_at: z.coerce.date()
 });
 
@@ -78,7 +253,15 @@ export const createExamInputSchema = z.object({
   tanggal_mulai: z.coerce.date(),
   tanggal_selesai: z.coerce.date(),
   durasi: z.number().int().positive(),
-  status: examStatusSchema
+  status: examStatusSchema,
+  max_attempts: z.number().int().positive().optional(), // Defaults to a single attempt
+  retake_cooldown_minutes: z.number().int().nonnegative().optional(),
+  score_policy: scorePolicySchema.optional(),
+  shuffle_questions: z.boolean().optional(),
+  shuffle_options: z.boolean().optional(),
+  draw_count: z.number().int().positive().nullable().optional(),
+  draw_stratify_by: drawStrataSchema.nullable().optional(),
+  kkm: z.number().int().min(0).max(100).nullable().optional()
 });
 
 export type CreateExamInput = z.infer<typeof createExamInputSchema>;
@@ -91,65 +274,464 @@ export const updateExamInputSchema = z.object({
   tanggal_mulai: z.coerce.date().optional(),
   tanggal_selesai: z.coerce.date().optional(),
   durasi: z.number().int().positive().optional(),
-  status: examStatusSchema.optional()
+  status: examStatusSchema.optional(),
+  max_attempts: z.number().int().positive().optional(),
+  retake_cooldown_minutes: z.number().int().nonnegative().optional(),
+  score_policy: scorePolicySchema.optional(),
+  shuffle_questions: z.boolean().optional(),
+  shuffle_options: z.boolean().optional(),
+  draw_count: z.number().int().positive().nullable().optional(),
+  draw_stratify_by: drawStrataSchema.nullable().optional(),
+  kkm: z.number().int().min(0).max(100).nullable().optional()
 });
 
 export type UpdateExamInput = z.infer<typeof updateExamInputSchema>;
 
+// Exam assignments: participants in an assigned class or assigned individually may take the exam,
+// except those explicitly excluded
+export const examAssignmentsSchema = z.object({
+  examId: z.number(),
+  classIds: z.array(z.number()),
+  userIds: z.array(z.number()),
+  excludedUserIds: z.array(z.number())
+});
+
+export type ExamAssignments = z.infer<typeof examAssignmentsSchema>;
+
+// Input schema for replacing an exam's assignments
+export const setExamAssignmentsInputSchema = z.object({
+  examId: z.number(),
+  classIds: z.array(z.number()).default([]),
+  userIds: z.array(z.number()).default([]),
+  excludedUserIds: z.array(z.number()).default([])
+});
+
+export type SetExamAssignmentsInput = z.infer<typeof setExamAssignmentsInputSchema>;
+
+// Get exam assignments by exam ID input
+export const getExamAssignmentsInputSchema = z.object({
+  examId: z.number()
+});
+
+export type GetExamAssignmentsInput = z.infer<typeof getExamAssignmentsInputSchema>;
+
+// Answer key of a short answer question: a match on either list is correct
+export const shortAnswerKeySchema = z.object({
+  accepted: z.array(z.string().trim().min(1)).default([]), // Compared ignoring case and repeated whitespace
+  patterns: z.array(z.string().min(1)).default([]) // Regular expressions, matched case-insensitively against the whole answer
+});
+
+export type ShortAnswerKey = z.infer<typeof shortAnswerKeySchema>;
+
+// Answer key of a numeric question
+export const numericKeySchema = z.object({
+  value: z.number(),
+  tolerance: z.number().nonnegative().default(0) // Absolute, answers within value ± tolerance are correct
+});
+
+export type NumericKey = z.infer<typeof numericKeySchema>;
+
 // Question schema
 export const questionSchema = z.object({
   id: z.number(),
   exam_id: z.number(),
+  tipe: questionTypeSchema,
   soal: z.string(),
-  pilihan: z.array(z.string()), // Array of choices [A, B, C, D]
-  jawaban_benar: z.string(), // Correct answer (A/B/C/D)
+  pilihan: z.array(z.string()), // Options, items in the correct order, or the left side of a matching question
+  jawaban_benar: z.string().nullable(), // Letter key (A-H, comma separated for multiple_answer)
+  pasangan: z.array(z.string()).nullable(), // Right side of a matching question, pasangan[i] matches pilihan[i]
+  kunci_jawaban: z.union([shortAnswerKeySchema, numericKeySchema]).nullable(),
+  poin: z.number(), // Points for a fully correct answer
+  poin_salah: z.number(), // Points deducted for a wrong answer
+  jawaban_alternatif: z.array(z.string()).nullable(), // More letters accepted for multiple choice and true/false
+  dibatalkan: z.boolean(), // Voided: everyone gets full points
+  topik: z.string().nullable(),
+  kesulitan: difficultySchema.nullable(),
+  bank_version_id: z.number().nullable(), // Bank question version this was copied from
   created_at: z.coerce.date()
 });
 
 export type Question = z.infer<typeof questionSchema>;
 
-// Input schema for creating questions
-export const createQuestionInputSchema = z.object({
+// Question as a participant sees it: no answer key, options in the attempt's order
+export type ParticipantQuestion = Omit<Question, 'jawaban_benar' | 'kunci_jawaban' | 'jawaban_alternatif' | 'dibatalkan' | 'bank_version_id'>;
+
+const choicesSchema = z.array(z.string()).min(2).max(8);
+const letterSchema = z.string().regex(/^[A-H]$/, 'Answer must be an option letter');
+
+// The type-specific part of a question. tipe may be left out for a multiple choice question.
+const questionContentSchema = z.discriminatedUnion('tipe', [
+  z.object({
+    tipe: z.literal('multiple_choice').optional(),
+    pilihan: choicesSchema,
+    jawaban_benar: letterSchema
+  }),
+  z.object({
+    tipe: z.literal('multiple_answer'),
+    pilihan: choicesSchema,
+    jawaban_benar: z.string().regex(/^[A-H](,[A-H])*$/, 'Answer must be comma separated option letters')
+  }),
+  z.object({
+    tipe: z.literal('true_false'),
+    pilihan: z.array(z.string()).length(2).default(['Benar', 'Salah']),
+    jawaban_benar: z.enum(['A', 'B']) // A for the first option (Benar), B for the second
+  }),
+  z.object({
+    tipe: z.literal('short_answer'),
+    kunci_jawaban: shortAnswerKeySchema
+  }),
+  z.object({
+    tipe: z.literal('numeric'),
+    kunci_jawaban: numericKeySchema
+  }),
+  z.object({
+    tipe: z.literal('matching'),
+    pilihan: choicesSchema,
+    pasangan: choicesSchema
+  }),
+  z.object({
+    tipe: z.literal('ordering'),
+    pilihan: choicesSchema // In the correct order; participants always get them shuffled
+  }),
+  z.object({
+    tipe: z.literal('essay') // Answered in free text and graded by hand
+  })
+]);
+
+// Checks that cannot be expressed per field: letters within the options, matching sides of equal length, valid patterns
+function refineQuestionContent(content: z.infer<typeof questionContentSchema>, ctx: z.RefinementCtx): void {
+  if ('jawaban_benar' in content) {
+    const letters = content.jawaban_benar.split(',');
+    if (letters.some(letter => letter.charCodeAt(0) - 65 >= content.pilihan.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['jawaban_benar'], message: 'Answer refers to an option that does not exist' });
+    }
+    if (new Set(letters).size !== letters.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['jawaban_benar'], message: 'Answer lists an option more than once' });
+    }
+  }
+
+  if (content.tipe === 'matching' && content.pasangan.length !== content.pilihan.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pasangan'], message: 'Both sides of a matching question need the same number of items' });
+  }
+
+  if (content.tipe === 'short_answer') {
+    if (content.kunci_jawaban.accepted.length === 0 && content.kunci_jawaban.patterns.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['kunci_jawaban'], message: 'At least one accepted answer or pattern is required' });
+    }
+    for (const pattern of content.kunci_jawaban.patterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['kunci_jawaban', 'patterns'], message: `Invalid pattern: ${pattern}` });
+      }
+    }
+  }
+}
+
+export const validQuestionContentSchema = questionContentSchema.superRefine(refineQuestionContent);
+
+export type QuestionContent = z.infer<typeof questionContentSchema>;
+
+const questionDetailsSchema = z.object({
   exam_id: z.number(),
   soal: z.string(),
-  pilihan: z.array(z.string()).length(4), // Exactly 4 choices
-  jawaban_benar: z.enum(['A', 'B', 'C', 'D'])
+  poin: z.number().positive().optional(),
+  poin_salah: z.number().nonnegative().optional(),
+  topik: z.string().nullable().optional(),
+  kesulitan: difficultySchema.nullable().optional()
 });
 
+// Input schema for creating questions
+export const createQuestionInputSchema = questionDetailsSchema.and(questionContentSchema).superRefine(refineQuestionContent);
+
 export type CreateQuestionInput = z.infer<typeof createQuestionInputSchema>;
 
-// Input schema for updating questions
+// Input schema for updating questions; the merged question is validated again as a whole
 export const updateQuestionInputSchema = z.object({
   id: z.number(),
   soal: z.string().optional(),
-  pilihan: z.array(z.string()).length(4).optional(),
-  jawaban_benar: z.enum(['A', 'B', 'C', 'D']).optional()
+  tipe: questionTypeSchema.optional(),
+  pilihan: z.array(z.string()).optional(),
+  jawaban_benar: z.string().nullable().optional(),
+  pasangan: z.array(z.string()).nullable().optional(),
+  kunci_jawaban: z.union([shortAnswerKeySchema, numericKeySchema]).nullable().optional(),
+  poin: z.number().positive().optional(),
+  poin_salah: z.number().nonnegative().optional(),
+  jawaban_alternatif: z.array(letterSchema).nullable().optional(),
+  dibatalkan: z.boolean().optional(),
+  topik: z.string().nullable().optional(),
+  kesulitan: difficultySchema.nullable().optional(),
+  regrade: z.boolean().optional() // Rescore the exam's submitted attempts afterwards
 });
 
 export type UpdateQuestionInput = z.infer<typeof updateQuestionInputSchema>;
 
+// Subject schema (mata pelajaran in the question bank)
+export const subjectSchema = z.object({
+  id: z.number(),
+  nama: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Subject = z.infer<typeof subjectSchema>;
+
+// Input schema for creating subjects
+export const createSubjectInputSchema = z.object({
+  nama: z.string().trim().min(1)
+});
+
+export type CreateSubjectInput = z.infer<typeof createSubjectInputSchema>;
+
+// Bank question schema: the metadata plus the content of its current version
+export const bankQuestionSchema = z.object({
+  id: z.number(),
+  subject_id: z.number(),
+  subject_nama: z.string(),
+  topik: z.string().nullable(),
+  kesulitan: difficultySchema.nullable(),
+  tags: z.array(z.string()),
+  version: z.number().int(),
+  tipe: questionTypeSchema,
+  soal: z.string(),
+  pilihan: z.array(z.string()),
+  jawaban_benar: z.string().nullable(),
+  pasangan: z.array(z.string()).nullable(),
+  kunci_jawaban: z.union([shortAnswerKeySchema, numericKeySchema]).nullable(),
+  poin: z.number(),
+  poin_salah: z.number(),
+  jawaban_alternatif: z.array(z.string()).nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type BankQuestion = z.infer<typeof bankQuestionSchema>;
+
+// Bank question version schema (content as it was at that version)
+export const bankQuestionVersionSchema = z.object({
+  id: z.number(),
+  bank_question_id: z.number(),
+  version: z.number().int(),
+  tipe: questionTypeSchema,
+  soal: z.string(),
+  pilihan: z.array(z.string()),
+  jawaban_benar: z.string().nullable(),
+  pasangan: z.array(z.string()).nullable(),
+  kunci_jawaban: z.union([shortAnswerKeySchema, numericKeySchema]).nullable(),
+  poin: z.number(),
+  poin_salah: z.number(),
+  jawaban_alternatif: z.array(z.string()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type BankQuestionVersion = z.infer<typeof bankQuestionVersionSchema>;
+
+const bankQuestionDetailsSchema = z.object({
+  subject_id: z.number(),
+  topik: z.string().nullable().optional(),
+  kesulitan: difficultySchema.nullable().optional(),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  soal: z.string(),
+  poin: z.number().positive().optional(),
+  poin_salah: z.number().nonnegative().optional()
+});
+
+// Input schema for creating bank questions; the content takes every question type, as for exam questions
+export const createBankQuestionInputSchema = bankQuestionDetailsSchema.and(questionContentSchema).superRefine(refineQuestionContent);
+
+export type CreateBankQuestionInput = z.infer<typeof createBankQuestionInputSchema>;
+
+// Input schema for updating bank questions; changing the soal, content or points adds a version,
+// which is validated again as a whole
+export const updateBankQuestionInputSchema = z.object({
+  id: z.number(),
+  subject_id: z.number().optional(),
+  topik: z.string().nullable().optional(),
+  kesulitan: difficultySchema.nullable().optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  soal: z.string().optional(),
+  tipe: questionTypeSchema.optional(),
+  pilihan: z.array(z.string()).optional(),
+  jawaban_benar: z.string().nullable().optional(),
+  pasangan: z.array(z.string()).nullable().optional(),
+  kunci_jawaban: z.union([shortAnswerKeySchema, numericKeySchema]).nullable().optional(),
+  poin: z.number().positive().optional(),
+  poin_salah: z.number().nonnegative().optional(),
+  jawaban_alternatif: z.array(letterSchema).nullable().optional()
+});
+
+export type UpdateBankQuestionInput = z.infer<typeof updateBankQuestionInputSchema>;
+
+// Input schema for searching the question bank; all filters are combined
+export const searchBankQuestionsInputSchema = z.object({
+  subjectId: z.number().optional(),
+  topik: z.string().optional(),
+  kesulitan: difficultySchema.optional(),
+  tag: z.string().optional(),
+  query: z.string().trim().min(1).optional(), // Matched against the current soal, case-insensitive
+  limit: z.number().int().positive().max(200).default(50)
+});
+
+export type SearchBankQuestionsInput = z.infer<typeof searchBankQuestionsInputSchema>;
+
+// Input schema for adding bank questions to an exam
+export const addBankQuestionsToExamInputSchema = z.object({
+  examId: z.number(),
+  bankQuestionIds: z.array(z.number()).min(1)
+});
+
+export type AddBankQuestionsToExamInput = z.infer<typeof addBankQuestionsToExamInputSchema>;
+
+// One answer: a letter or text, or for multiple_answer, matching and ordering a list of letters
+export const answerValueSchema = z.union([z.string().max(20000), z.array(z.string().max(1000)).max(8)]);
+
+export type AnswerValue = z.infer<typeof answerValueSchema>;
+
 // Answer schema
 export const answerSchema = z.object({
   id: z.number(),
   exam_id: z.number(),
   user_id: z.number(),
-  jawaban: z.record(z.string(), z.string()), // JSON object: {question_id: answer_choice}
-  nilai: z.number().int().nonnegative(), // Automatically calculated score
+  attempt_number: z.number().int().positive(),
+  jawaban: z.record(z.string(), answerValueSchema), // JSON object: {question_id: answer}
+  nilai: z.number().int().nonnegative(), // Automatically calculated score, percent of poin_maksimal
+  poin: z.number().nonnegative(), // Raw points earned
+  poin_maksimal: z.number().nonnegative(), // Points available in the attempt's questions
   waktu_submit: z.coerce.date(),
   is_submitted: z.boolean(),
-  progress_jawaban: z.record(z.string(), z.string()).nullable(), // JSON object for autosave
+  progress_jawaban: z.record(z.string(), answerValueSchema).nullable(), // JSON object for autosave
+  started_at: z.coerce.date(),
+  deadline_at: z.coerce.date().nullable(), // Earlier of started_at + durasi and tanggal_selesai
+  submit_reason: submitReasonSchema.nullable(),
+  question_order: z.array(z.number()).nullable(), // Question ids in the order this attempt shows them
+  option_order: z.record(z.string(), z.array(z.number())).nullable(), // Original option index per displayed letter
+  pending_grading: z.boolean(), // Submitted, but essay responses still need grading; nilai is not final
+  status_kelulusan: passStatusSchema.nullable(), // Against the exam's KKM once nilai is final
   created_at: z.coerce.date()
 });
 
 export type Answer = z.infer<typeof answerSchema>;
 
-// Input schema for creating answers
+// Regrade log schema
+export const regradeLogSchema = z.object({
+  id: z.number(),
+  exam_id: z.number(),
+  answer_id: z.number(),
+  nilai_lama: z.number().int(),
+  nilai_baru: z.number().int(),
+  poin_lama: z.number(),
+  poin_baru: z.number(),
+  alasan: z.string().nullable(),
+  regraded_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type RegradeLog = z.infer<typeof regradeLogSchema>;
+
+// Outcome of regrading an exam; changes holds the log rows written
+export const regradeResultSchema = z.object({
+  examId: z.number(),
+  regradedCount: z.number().int(),
+  changedCount: z.number().int(),
+  changes: z.array(regradeLogSchema)
+});
+
+export type RegradeResult = z.infer<typeof regradeResultSchema>;
+
+// Input schema for regrading an exam
+export const regradeExamInputSchema = z.object({
+  examId: z.number(),
+  alasan: z.string().trim().nullable().optional()
+});
+
+export type RegradeExamInput = z.infer<typeof regradeExamInputSchema>;
+
+// Input schema for deleting questions
+export const deleteQuestionInputSchema = z.object({
+  id: z.number(),
+  regrade: z.boolean().optional() // Rescore the exam's submitted attempts afterwards
+});
+
+export type DeleteQuestionInput = z.infer<typeof deleteQuestionInputSchema>;
+
+// Essay grade schema
+export const essayGradeSchema = z.object({
+  id: z.number(),
+  answer_id: z.number(),
+  question_id: z.number(),
+  poin: z.number(),
+  feedback: z.string().nullable(),
+  graded_by: z.number().nullable(),
+  graded_at: z.coerce.date()
+});
+
+export type EssayGrade = z.infer<typeof essayGradeSchema>;
+
+// An essay response waiting for a grade
+export const ungradedEssayResponseSchema = z.object({
+  answerId: z.number(),
+  userId: z.number(),
+  userNama: z.string(),
+  attemptNumber: z.number().int(),
+  questionId: z.number(),
+  soal: z.string(),
+  jawaban: z.string(),
+  maxPoin: z.number(),
+  waktuSubmit: z.coerce.date()
+});
+
+export type UngradedEssayResponse = z.infer<typeof ungradedEssayResponseSchema>;
+
+// Input schema for grading one essay response
+export const gradeEssayInputSchema = z.object({
+  answerId: z.number(),
+  questionId: z.number(),
+  poin: z.number().nonnegative(),
+  feedback: z.string().trim().nullable().optional()
+});
+
+export type GradeEssayInput = z.infer<typeof gradeEssayInputSchema>;
+
+// Get essay grades of an attempt input
+export const getEssayGradesInputSchema = z.object({
+  answerId: z.number()
+});
+
+export type GetEssayGradesInput = z.infer<typeof getEssayGradesInputSchema>;
+
+// Result of one sweep over expired attempts
+export const autoSubmitResultSchema = z.object({
+  submittedCount: z.number().int(),
+  answerIds: z.array(z.number())
+});
+
+export type AutoSubmitResult = z.infer<typeof autoSubmitResultSchema>;
+
+// Attempt timer as seen by the server, so clients never rely on their own clock
+export const attemptStatusSchema = z.object({
+  answerId: z.number(),
+  examId: z.number(),
+  startedAt: z.coerce.date(),
+  deadline: z.coerce.date().nullable(),
+  serverTime: z.coerce.date(),
+  remainingSeconds: z.number().int().nonnegative().nullable(), // Null when the attempt has no deadline
+  isSubmitted: z.boolean(),
+  isExpired: z.boolean()
+});
+
+export type AttemptStatus = z.infer<typeof attemptStatusSchema>;
+
+// Get attempt status input
+export const getAttemptStatusInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetAttemptStatusInput = z.infer<typeof getAttemptStatusInputSchema>;
+
+// Input schema for creating answers (user_id comes from the session, never the client)
 export const createAnswerInputSchema = z.object({
   exam_id: z.number(),
-  user_id: z.number(),
-  jawaban: z.record(z.string(), z.string()),
-  is_submitted: z.boolean().default(false),
-  progress_jawaban: z.record(z.string(), z.string()).nullable().optional()
+  jawaban: z.record(z.string(), answerValueSchema),
+  progress_jawaban: z.record(z.string(), answerValueSchema).nullable().optional()
 });
 
 export type CreateAnswerInput = z.infer<typeof createAnswerInputSchema>;
@@ -157,7 +739,7 @@ export type CreateAnswerInput = z.infer<typeof createAnswerInputSchema>;
 // Input schema for updating progress
 export const updateProgressInputSchema = z.object({
   id: z.number(),
-  progress_jawaban: z.record(z.string(), z.string())
+  progress_jawaban: z.record(z.string(), answerValueSchema)
 });
 
 export type UpdateProgressInput = z.infer<typeof updateProgressInputSchema>;
@@ -165,7 +747,7 @@ export type UpdateProgressInput = z.infer<typeof updateProgressInputSchema>;
 // Input schema for submitting exam
 export const submitExamInputSchema = z.object({
   id: z.number(),
-  jawaban: z.record(z.string(), z.string())
+  jawaban: z.record(z.string(), answerValueSchema)
 });
 
 export type SubmitExamInput = z.infer<typeof submitExamInputSchema>;
@@ -174,25 +756,178 @@ export type SubmitExamInput = z.infer<typeof submitExamInputSchema>;
 export const dashboardStatsSchema = z.object({
   totalExams: z.number(),
   totalParticipants: z.number(),
-  averageScore: z.number()
+  averageScore: z.number(),
+  passRate: z.number() // Percent of graded results that pass their exam's KKM; exams without a KKM are left out
 });
 
 export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
 
 // Exam result schema
 export const examResultSchema = z.object({
+  answer_id: z.number(), // The counted attempt; under the average policy the latest submitted one
   user_id: z.number(),
   user_nama: z.string(),
   user_kelas: z.string().nullable(),
   exam_id: z.number(),
   exam_judul: z.string(),
-  nilai: z.number(),
+  nilai: z.number().nullable(), // Per the exam's score policy when there are several attempts; null while awaiting grading
+  poin: z.number().nullable(), // Raw points behind nilai, e.g. 34 of 40; null while awaiting grading
+  poin_maksimal: z.number(),
   waktu_submit: z.coerce.date(),
-  is_submitted: z.boolean()
+  is_submitted: z.boolean(),
+  pending_grading: z.boolean(), // A counted attempt has essay responses that are not graded yet
+  status_kelulusan: passStatusSchema.nullable(), // nilai against the exam's KKM; null without a KKM or a final nilai
+  attempt_count: z.number().int()
 });
 
 export type ExamResult = z.infer<typeof examResultSchema>;
 
+// How often one option was picked on a choice question
+export const distractorSchema = z.object({
+  option: z.string(), // Letter in the stored question, whatever order participants saw
+  teks: z.string(),
+  isCorrect: z.boolean(),
+  count: z.number().int(),
+  proportion: z.number()
+});
+
+export type Distractor = z.infer<typeof distractorSchema>;
+
+// Item statistics of one question; a statistic is null when there are too few responses for it
+export const itemStatisticsSchema = z.object({
+  questionId: z.number(),
+  soal: z.string(),
+  tipe: questionTypeSchema,
+  responseCount: z.number().int(), // Participants who were given the question
+  unansweredCount: z.number().int(),
+  pValue: z.number().nullable(), // Difficulty index: mean credit, 1 when everyone is right
+  discriminationIndex: z.number().nullable(), // Mean credit of the top 27% minus that of the bottom 27%
+  pointBiserial: z.number().nullable(), // Correlation between the item's credit and the total score
+  distractors: z.array(distractorSchema) // Empty for question types without options to pick
+});
+
+export type ItemStatistics = z.infer<typeof itemStatisticsSchema>;
+
+// Item analysis of an exam over each participant's latest submitted attempt
+export const itemAnalysisSchema = z.object({
+  examId: z.number(),
+  respondentCount: z.number().int(),
+  kr20: z.number().nullable(), // Only when every item is scored right or wrong
+  cronbachAlpha: z.number().nullable(),
+  items: z.array(itemStatisticsSchema)
+});
+
+export type ItemAnalysis = z.infer<typeof itemAnalysisSchema>;
+
+// Input schema for an exam's score statistics, optionally for one class
+export const getExamStatisticsInputSchema = z.object({
+  examId: z.number(),
+  classId: z.number().optional(),
+  bucketSize: z.number().int().min(1).max(100).default(10) // Width of each histogram bucket in nilai
+});
+
+export type GetExamStatisticsInput = z.infer<typeof getExamStatisticsInputSchema>;
+
+// One histogram bucket: from is inclusive, to is exclusive except on the last bucket
+export const histogramBucketSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  count: z.number().int()
+});
+
+export type HistogramBucket = z.infer<typeof histogramBucketSchema>;
+
+// Descriptive statistics of the counted nilai of an exam's graded results; null without any
+export const examStatisticsSchema = z.object({
+  examId: z.number(),
+  classId: z.number().nullable(),
+  count: z.number().int(),
+  pendingCount: z.number().int(), // Results left out while awaiting essay grading
+  mean: z.number().nullable(),
+  median: z.number().nullable(),
+  mode: z.array(z.number()), // Every most frequent nilai
+  standardDeviation: z.number().nullable(),
+  min: z.number().nullable(),
+  max: z.number().nullable(),
+  quartiles: z.object({
+    q1: z.number(),
+    q2: z.number(),
+    q3: z.number()
+  }).nullable(),
+  histogram: z.array(histogramBucketSchema)
+});
+
+export type ExamStatistics = z.infer<typeof examStatisticsSchema>;
+
+// Input schema for the class report, across all exams unless one is given
+export const getClassReportInputSchema = z.object({
+  examId: z.number().optional()
+});
+
+export type GetClassReportInput = z.infer<typeof getClassReportInputSchema>;
+
+// One class's row in the class report, over its members' counted results
+export const classReportSchema = z.object({
+  kelas: z.string(),
+  participantCount: z.number().int(), // Members with at least one graded result
+  resultCount: z.number().int(),
+  averageScore: z.number().nullable(), // null while every result awaits grading
+  passRate: z.number().nullable(), // Percent passing the KKM; null when no result was judged
+  rank: z.number().int().nullable() // 1 for the highest average, ties share a rank
+});
+
+export type ClassReport = z.infer<typeof classReportSchema>;
+
+// Input schema for a participant's report
+export const getParticipantReportInputSchema = z.object({
+  userId: z.number()
+});
+
+export type GetParticipantReportInput = z.infer<typeof getParticipantReportInputSchema>;
+
+// One submitted exam in a participant's score trend
+export const participantTrendPointSchema = z.object({
+  examId: z.number(),
+  examJudul: z.string(),
+  nilai: z.number().nullable(), // null while awaiting grading
+  statusKelulusan: passStatusSchema.nullable(),
+  waktuSubmit: z.coerce.date()
+});
+
+export type ParticipantTrendPoint = z.infer<typeof participantTrendPointSchema>;
+
+// An assigned exam that closed without a submitted attempt
+export const missedExamSchema = z.object({
+  examId: z.number(),
+  examJudul: z.string(),
+  tanggalSelesai: z.coerce.date()
+});
+
+export type MissedExam = z.infer<typeof missedExamSchema>;
+
+// A participant's history across all exams
+export const participantReportSchema = z.object({
+  userId: z.number(),
+  nama: z.string(),
+  kelas: z.string().nullable(),
+  averageScore: z.number().nullable(), // null without a graded result
+  examCount: z.number().int(), // Exams with a submitted attempt
+  trend: z.array(participantTrendPointSchema), // Oldest submission first
+  missedExams: z.array(missedExamSchema)
+});
+
+export type ParticipantReport = z.infer<typeof participantReportSchema>;
+
+// Input schema for exporting results, of one exam or of all exams
+export const exportExamResultsInputSchema = z.object({
+  examId: z.number().optional(),
+  includeQuestions: z.boolean().default(false), // Answer and score (0 to 1) columns per question; needs examId
+  delimiter: z.enum([',', ';', '\t']).default(','), // ';' for Excel in locales with a decimal comma, e.g. Indonesian
+  bom: z.boolean().default(false) // Lets Excel detect UTF-8; CSV only
+});
+
+export type ExportExamResultsInput = z.infer<typeof exportExamResultsInputSchema>;
+
 // Get questions by exam ID input
 export const getQuestionsByExamInputSchema = z.object({
   examId: z.number()
@@ -200,9 +935,10 @@ export const getQuestionsByExamInputSchema = z.object({
 
 export type GetQuestionsByExamInput = z.infer<typeof getQuestionsByExamInputSchema>;
 
-// Get exam results by exam ID input
+// Get exam results by exam ID input, optionally only passing or failing results
 export const getExamResultsInputSchema = z.object({
-  examId: z.number()
+  examId: z.number(),
+  status: passStatusSchema.optional()
 });
 
 export type GetExamResultsInput = z.infer<typeof getExamResultsInputSchema>;
@@ -1,14 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, examsTable, questionsTable, answersTable } from '../db/schema';
+import { usersTable, examsTable, questionsTable, answersTable, examAssignmentsTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { 
     createAnswer,
     getUserAnswer,
     updateProgress,
     submitExam,
+    getAttemptStatus,
+    autoSubmitExpiredAttempts,
+    computeDeadline,
     calculateScore,
+    calculatePoints,
     getAnswersByExamId
 } from '../handlers/answers';
 import { 
@@ -71,6 +75,11 @@ describe('Answer Handlers', () => {
             .execute();
         examId = examResult[0].id;
 
+        // Assign the exam to the test user
+        await db.insert(examAssignmentsTable)
+            .values({ exam_id: examId, user_id: userId })
+            .execute();
+
         // Create test questions
         const questionPromises = testQuestions.map(question => 
             db.insert(questionsTable)
@@ -92,12 +101,10 @@ describe('Answer Handlers', () => {
         it('should create an answer record', async () => {
             const input: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
 
-            const result = await createAnswer(input);
+            const result = await createAnswer(input, userId);
 
             expect(result.id).toBeDefined();
             expect(result.exam_id).toBe(examId);
@@ -108,19 +115,107 @@ describe('Answer Handlers', () => {
             expect(result.progress_jawaban).toBeNull();
             expect(result.created_at).toBeInstanceOf(Date);
             expect(result.waktu_submit).toBeInstanceOf(Date);
+            expect(result.started_at).toBeInstanceOf(Date);
+            expect(result.deadline_at).toBeInstanceOf(Date);
+        });
+
+        it('should end the attempt after durasi minutes', async () => {
+            await db.update(examsTable)
+                .set({ durasi: 30 })
+                .where(eq(examsTable.id, examId))
+                .execute();
+
+            const result = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+
+            expect(result.deadline_at!.getTime() - result.started_at.getTime()).toBe(30 * 60 * 1000);
+        });
+
+        it('should number retakes when the exam allows several attempts', async () => {
+            await db.update(examsTable)
+                .set({ max_attempts: 2 })
+                .where(eq(examsTable.id, examId))
+                .execute();
+
+            const first = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            await submitExam({ id: first.id, jawaban: {} }, userId);
+            const second = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+
+            expect(first.attempt_number).toBe(1);
+            expect(second.attempt_number).toBe(2);
+
+            const latest = await getUserAnswer({ userId, examId });
+            expect(latest!.id).toBe(second.id);
+        });
+
+        it('should reject attempts beyond max_attempts', async () => {
+            const first = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            await submitExam({ id: first.id, jawaban: {} }, userId);
+
+            await expect(createAnswer({ exam_id: examId, jawaban: {} }, userId))
+                .rejects.toThrow(/maximum number of attempts/i);
+        });
+
+        it('should enforce the cooldown between attempts', async () => {
+            await db.update(examsTable)
+                .set({ max_attempts: 3, retake_cooldown_minutes: 10 })
+                .where(eq(examsTable.id, examId))
+                .execute();
+
+            const first = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            await submitExam({ id: first.id, jawaban: {} }, userId);
+
+            await expect(createAnswer({ exam_id: examId, jawaban: {} }, userId))
+                .rejects.toThrow(/next attempt is available after/i);
+
+            await db.update(answersTable)
+                .set({ waktu_submit: new Date(Date.now() - 11 * 60 * 1000) })
+                .where(eq(answersTable.id, first.id))
+                .execute();
+
+            const second = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            expect(second.attempt_number).toBe(2);
+        });
+
+        it('should let only one of two simultaneous starts through', async () => {
+            const results = await Promise.allSettled([
+                createAnswer({ exam_id: examId, jawaban: {} }, userId),
+                createAnswer({ exam_id: examId, jawaban: {} }, userId)
+            ]);
+
+            expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+            const attempts = await db.select()
+                .from(answersTable)
+                .where(eq(answersTable.exam_id, examId))
+                .execute();
+            expect(attempts).toHaveLength(1);
+            expect(attempts[0].question_order).not.toBeNull();
+        });
+
+        it('should always start an attempt unsubmitted', async () => {
+            const result = await createAnswer({ exam_id: examId, jawaban: {}, is_submitted: true } as CreateAnswerInput, userId);
+
+            expect(result.is_submitted).toBe(false);
+        });
+
+        it('should reject an exam outside its time window', async () => {
+            await db.update(examsTable)
+                .set({ tanggal_mulai: new Date(Date.now() + 3600000), tanggal_selesai: new Date(Date.now() + 7200000) })
+                .where(eq(examsTable.id, examId))
+                .execute();
+
+            await expect(createAnswer({ exam_id: examId, jawaban: {} }, userId))
+                .rejects.toThrow(/not open/i);
         });
 
         it('should create answer with progress data', async () => {
             const progressData = { [questionIds[0].toString()]: 'A' };
             const input: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: userId,
                 jawaban: {},
-                is_submitted: false,
                 progress_jawaban: progressData
             };
 
-            const result = await createAnswer(input);
+            const result = await createAnswer(input, userId);
 
             expect(result.progress_jawaban).toEqual(progressData);
         });
@@ -128,42 +223,56 @@ describe('Answer Handlers', () => {
         it('should prevent duplicate answer records', async () => {
             const input: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
 
             // Create first answer
-            await createAnswer(input);
+            await createAnswer(input, userId);
 
             // Try to create duplicate
-            await expect(createAnswer(input))
-                .rejects.toThrow(/Answer record already exists/i);
+            await expect(createAnswer(input, userId))
+                .rejects.toThrow(/already in progress/i);
         });
 
         it('should throw error for non-existent user', async () => {
             const input: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: 99999, // Non-existent user
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
 
-            await expect(createAnswer(input))
+            await expect(createAnswer(input, 99999)) // Non-existent user
                 .rejects.toThrow(/User not found/i);
         });
 
         it('should throw error for non-existent exam', async () => {
             const input: CreateAnswerInput = {
                 exam_id: 99999, // Non-existent exam
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
 
-            await expect(createAnswer(input))
+            await expect(createAnswer(input, userId))
                 .rejects.toThrow(/Exam not found/i);
         });
+
+        it('should reject an exam that is not assigned to the user', async () => {
+            const otherExam = await db.insert(examsTable)
+                .values(testExam)
+                .returning()
+                .execute();
+
+            await expect(createAnswer({ exam_id: otherExam[0].id, jawaban: {} }, userId))
+                .rejects.toThrow(/not assigned/i);
+        });
+
+        it('should reject a user excluded from the exam', async () => {
+            await db.update(examAssignmentsTable)
+                .set({ excluded: true })
+                .where(eq(examAssignmentsTable.user_id, userId))
+                .execute();
+
+            await expect(createAnswer({ exam_id: examId, jawaban: {} }, userId))
+                .rejects.toThrow(/not assigned/i);
+        });
     });
 
     describe('getUserAnswer', () => {
@@ -171,12 +280,10 @@ describe('Answer Handlers', () => {
             // Create answer first
             const createInput: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
             
-            const createdAnswer = await createAnswer(createInput);
+            const createdAnswer = await createAnswer(createInput, userId);
 
             // Get answer
             const input: GetUserAnswerInput = {
@@ -210,12 +317,10 @@ describe('Answer Handlers', () => {
         beforeEach(async () => {
             const createInput: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
             
-            const answer = await createAnswer(createInput);
+            const answer = await createAnswer(createInput, userId);
             answerId = answer.id;
         });
 
@@ -230,7 +335,7 @@ describe('Answer Handlers', () => {
                 progress_jawaban: progressData
             };
 
-            const result = await updateProgress(input);
+            const result = await updateProgress(input, userId);
 
             expect(result.progress_jawaban).toEqual(progressData);
             expect(result.is_submitted).toBe(false);
@@ -242,17 +347,35 @@ describe('Answer Handlers', () => {
                 progress_jawaban: {}
             };
 
-            await expect(updateProgress(input))
+            await expect(updateProgress(input, userId))
                 .rejects.toThrow(/Answer record not found/i);
         });
 
+        it('should reject progress updates from another user', async () => {
+            const otherUser = await db.insert(usersTable)
+                .values({
+                    ...testUser,
+                    email: 'other@test.com'
+                })
+                .returning()
+                .execute();
+
+            const input: UpdateProgressInput = {
+                id: answerId,
+                progress_jawaban: { [questionIds[0].toString()]: 'A' }
+            };
+
+            await expect(updateProgress(input, otherUser[0].id))
+                .rejects.toThrow(/belongs to another user/i);
+        });
+
         it('should prevent updating submitted exam progress', async () => {
             // Submit exam first
             const submitInput: SubmitExamInput = {
                 id: answerId,
                 jawaban: {}
             };
-            await submitExam(submitInput);
+            await submitExam(submitInput, userId);
 
             // Try to update progress
             const input: UpdateProgressInput = {
@@ -260,9 +383,29 @@ describe('Answer Handlers', () => {
                 progress_jawaban: { '1': 'A' }
             };
 
-            await expect(updateProgress(input))
+            await expect(updateProgress(input, userId))
                 .rejects.toThrow(/Cannot update progress for submitted exam/i);
         });
+
+        it('should accept progress within the grace window', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 5000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await updateProgress({ id: answerId, progress_jawaban: {} }, userId);
+            expect(result.progress_jawaban).toEqual({});
+        });
+
+        it('should reject progress after the deadline', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 120000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            await expect(updateProgress({ id: answerId, progress_jawaban: {} }, userId))
+                .rejects.toThrow(/time is up/i);
+        });
     });
 
     describe('submitExam', () => {
@@ -271,12 +414,10 @@ describe('Answer Handlers', () => {
         beforeEach(async () => {
             const createInput: CreateAnswerInput = {
                 exam_id: examId,
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
+                jawaban: {}
             };
             
-            const answer = await createAnswer(createInput);
+            const answer = await createAnswer(createInput, userId);
             answerId = answer.id;
         });
 
@@ -291,7 +432,7 @@ describe('Answer Handlers', () => {
                 jawaban: userAnswers
             };
 
-            const result = await submitExam(input);
+            const result = await submitExam(input, userId);
 
             expect(result.jawaban).toEqual(userAnswers);
             expect(result.nilai).toBe(100); // 2/2 correct = 100%
@@ -299,6 +440,43 @@ describe('Answer Handlers', () => {
             expect(result.waktu_submit).toBeInstanceOf(Date);
         });
 
+        it('should grade a shuffled attempt against the stored correct answers', async () => {
+            await db.update(examsTable)
+                .set({ max_attempts: 2, shuffle_questions: true, shuffle_options: true })
+                .where(eq(examsTable.id, examId))
+                .execute();
+            await submitExam({ id: answerId, jawaban: {} }, userId);
+
+            const attempt = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            expect([...attempt.question_order!].sort()).toEqual([...questionIds].sort());
+
+            // The letter now showing the stored option C (index 2)
+            const userAnswers = Object.fromEntries(questionIds.map(id => [
+                id.toString(),
+                String.fromCharCode(65 + attempt.option_order![id.toString()].indexOf(2))
+            ]));
+
+            const result = await submitExam({ id: attempt.id, jawaban: userAnswers }, userId);
+
+            expect(result.nilai).toBe(100);
+        });
+
+        it('should grade a drawn attempt on its own questions only', async () => {
+            await db.update(examsTable)
+                .set({ max_attempts: 2, draw_count: 1 })
+                .where(eq(examsTable.id, examId))
+                .execute();
+            await submitExam({ id: answerId, jawaban: {} }, userId);
+
+            const attempt = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            expect(attempt.question_order).toHaveLength(1);
+
+            const drawnId = attempt.question_order![0].toString();
+            const result = await submitExam({ id: attempt.id, jawaban: { [drawnId]: 'C' } }, userId);
+
+            expect(result.nilai).toBe(100);
+        });
+
         it('should calculate partial score correctly', async () => {
             const userAnswers = {
                 [questionIds[0].toString()]: 'C', // Correct answer
@@ -310,7 +488,7 @@ describe('Answer Handlers', () => {
                 jawaban: userAnswers
             };
 
-            const result = await submitExam(input);
+            const result = await submitExam(input, userId);
 
             expect(result.nilai).toBe(50); // 1/2 correct = 50%
         });
@@ -321,10 +499,34 @@ describe('Answer Handlers', () => {
                 jawaban: {}
             };
 
-            await expect(submitExam(input))
+            await expect(submitExam(input, userId))
                 .rejects.toThrow(/Answer record not found/i);
         });
 
+        it('should reject submission by another user', async () => {
+            const otherUser = await db.insert(usersTable)
+                .values({
+                    ...testUser,
+                    email: 'other@test.com'
+                })
+                .returning()
+                .execute();
+
+            const input: SubmitExamInput = {
+                id: answerId,
+                jawaban: {}
+            };
+
+            await expect(submitExam(input, otherUser[0].id))
+                .rejects.toThrow(/belongs to another user/i);
+
+            const answers = await db.select()
+                .from(answersTable)
+                .where(eq(answersTable.id, answerId))
+                .execute();
+            expect(answers[0].is_submitted).toBe(false);
+        });
+
         it('should prevent duplicate submission', async () => {
             const input: SubmitExamInput = {
                 id: answerId,
@@ -332,12 +534,164 @@ describe('Answer Handlers', () => {
             };
 
             // Submit first time
-            await submitExam(input);
+            await submitExam(input, userId);
 
             // Try to submit again
-            await expect(submitExam(input))
+            await expect(submitExam(input, userId))
                 .rejects.toThrow(/Exam has already been submitted/i);
         });
+
+        it('should accept only one of two simultaneous submissions', async () => {
+            const results = await Promise.allSettled([
+                submitExam({ id: answerId, jawaban: {} }, userId),
+                submitExam({ id: answerId, jawaban: {} }, userId)
+            ]);
+
+            expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+            const rejected = results.find(result => result.status === 'rejected');
+            expect((rejected as PromiseRejectedResult).reason.message).toMatch(/already been submitted/i);
+        });
+
+        it('should reject submission after the deadline', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 120000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            await expect(submitExam({ id: answerId, jawaban: {} }, userId))
+                .rejects.toThrow(/time is up/i);
+        });
+    });
+
+    describe('autoSubmitExpiredAttempts', () => {
+        let answerId: number;
+
+        beforeEach(async () => {
+            const answer = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            answerId = answer.id;
+        });
+
+        it('should score and submit expired attempts from their latest progress', async () => {
+            await updateProgress({
+                id: answerId,
+                progress_jawaban: { [questionIds[0].toString()]: 'C' }
+            }, userId);
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 120000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await autoSubmitExpiredAttempts();
+
+            expect(result).toEqual({ submittedCount: 1, answerIds: [answerId] });
+
+            const answers = await db.select()
+                .from(answersTable)
+                .where(eq(answersTable.id, answerId))
+                .execute();
+            expect(answers[0].is_submitted).toBe(true);
+            expect(answers[0].nilai).toBe(50);
+            expect(answers[0].submit_reason).toEqual('auto_submitted');
+            expect(answers[0].jawaban).toEqual({ [questionIds[0].toString()]: 'C' });
+        });
+
+        it('should leave running attempts and attempts within the grace window alone', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 5000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await autoSubmitExpiredAttempts();
+
+            expect(result.submittedCount).toBe(0);
+        });
+
+        it('should not touch submitted attempts', async () => {
+            await submitExam({ id: answerId, jawaban: {} }, userId);
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 120000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await autoSubmitExpiredAttempts();
+
+            expect(result.submittedCount).toBe(0);
+            const answers = await db.select()
+                .from(answersTable)
+                .where(eq(answersTable.id, answerId))
+                .execute();
+            expect(answers[0].submit_reason).toEqual('submitted');
+        });
+
+        it('should end attempts without a deadline when the exam window closes', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: null })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await autoSubmitExpiredAttempts(new Date(Date.now() + 2 * 3600000));
+
+            expect(result.answerIds).toEqual([answerId]);
+        });
+    });
+
+    describe('computeDeadline', () => {
+        it('should use durasi when the exam window is longer', () => {
+            const startedAt = new Date('2024-01-15T09:00:00Z');
+            const deadline = computeDeadline(startedAt, { durasi: 90, tanggal_selesai: new Date('2024-01-15T12:00:00Z') });
+
+            expect(deadline).toEqual(new Date('2024-01-15T10:30:00Z'));
+        });
+
+        it('should stop at tanggal_selesai for late starters', () => {
+            const startedAt = new Date('2024-01-15T11:30:00Z');
+            const deadline = computeDeadline(startedAt, { durasi: 90, tanggal_selesai: new Date('2024-01-15T12:00:00Z') });
+
+            expect(deadline).toEqual(new Date('2024-01-15T12:00:00Z'));
+        });
+    });
+
+    describe('getAttemptStatus', () => {
+        let answerId: number;
+
+        beforeEach(async () => {
+            const answer = await createAnswer({ exam_id: examId, jawaban: {} }, userId);
+            answerId = answer.id;
+        });
+
+        it('should report remaining time from server time', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() + 600000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await getAttemptStatus({ id: answerId }, userId);
+
+            expect(result.answerId).toBe(answerId);
+            expect(result.examId).toBe(examId);
+            expect(result.remainingSeconds).toBeGreaterThan(590);
+            expect(result.remainingSeconds).toBeLessThanOrEqual(600);
+            expect(result.isExpired).toBe(false);
+            expect(result.isSubmitted).toBe(false);
+            expect(result.serverTime).toBeInstanceOf(Date);
+        });
+
+        it('should report an expired attempt', async () => {
+            await db.update(answersTable)
+                .set({ deadline_at: new Date(Date.now() - 1000) })
+                .where(eq(answersTable.id, answerId))
+                .execute();
+
+            const result = await getAttemptStatus({ id: answerId }, userId);
+
+            expect(result.remainingSeconds).toBe(0);
+            expect(result.isExpired).toBe(true);
+        });
+
+        it('should reject status requests from another user', async () => {
+            await expect(getAttemptStatus({ id: answerId }, userId + 1))
+                .rejects.toThrow(/belongs to another user/i);
+        });
     });
 
     describe('calculateScore', () => {
@@ -387,6 +741,113 @@ describe('Answer Handlers', () => {
 
             expect(score).toBe(0);
         });
+
+        it('should grade every question type with partial credit', async () => {
+            const typedExam = await db.insert(examsTable)
+                .values({ ...testExam, judul_ujian: 'Typed Exam' })
+                .returning()
+                .execute();
+            const questions = await db.insert(questionsTable)
+                .values([
+                    { exam_id: typedExam[0].id, tipe: 'multiple_answer', soal: 'Bilangan prima?', pilihan: ['2', '4', '5', '9'], jawaban_benar: 'A,C' },
+                    { exam_id: typedExam[0].id, tipe: 'true_false', soal: 'Air mendidih pada 100 °C', pilihan: ['Benar', 'Salah'], jawaban_benar: 'A' },
+                    { exam_id: typedExam[0].id, tipe: 'short_answer', soal: 'Ibu kota Jepang?', pilihan: [], kunci_jawaban: { accepted: ['Tokyo'], patterns: [] } },
+                    { exam_id: typedExam[0].id, tipe: 'numeric', soal: '22 / 7?', pilihan: [], kunci_jawaban: { value: 3.14, tolerance: 0.01 } }
+                ])
+                .returning()
+                .execute();
+
+            const score = await calculateScore(typedExam[0].id, {
+                [questions[0].id.toString()]: ['A'], // Half of the key
+                [questions[1].id.toString()]: 'A',
+                [questions[2].id.toString()]: ' tokyo ',
+                [questions[3].id.toString()]: '3,14'
+            });
+
+            expect(score).toBe(88); // (0.5 + 1 + 1 + 1) / 4
+        });
+    });
+
+    describe('calculatePoints', () => {
+        let weightedExamId: number;
+        let weightedIds: string[];
+
+        beforeEach(async () => {
+            const weightedExam = await db.insert(examsTable)
+                .values({ ...testExam, judul_ujian: 'Weighted Exam' })
+                .returning()
+                .execute();
+            weightedExamId = weightedExam[0].id;
+
+            const questions = await db.insert(questionsTable)
+                .values([
+                    { exam_id: weightedExamId, soal: 'Easy', pilihan: ['a', 'b'], jawaban_benar: 'A', poin: 10 },
+                    { exam_id: weightedExamId, soal: 'Hard', pilihan: ['a', 'b'], jawaban_benar: 'B', poin: 30, poin_salah: 5 },
+                    { exam_id: weightedExamId, tipe: 'multiple_answer', soal: 'Multi', pilihan: ['a', 'b', 'c', 'd'], jawaban_benar: 'A,B', poin: 10 }
+                ])
+                .returning()
+                .execute();
+            weightedIds = questions.map(question => question.id.toString());
+        });
+
+        it('should weigh each question by its points', async () => {
+            const result = await calculatePoints(weightedExamId, {
+                [weightedIds[0]]: 'A',
+                [weightedIds[1]]: 'B',
+                [weightedIds[2]]: ['A']
+            });
+
+            expect(result).toEqual({ poin: 45, poin_maksimal: 50, nilai: 90 });
+        });
+
+        it('should deduct negative marks for wrong answers only', async () => {
+            const wrong = await calculatePoints(weightedExamId, {
+                [weightedIds[0]]: 'A',
+                [weightedIds[1]]: 'A'
+            });
+            const blank = await calculatePoints(weightedExamId, {
+                [weightedIds[0]]: 'A',
+                [weightedIds[1]]: ''
+            });
+
+            expect(wrong.poin).toEqual(5);
+            expect(blank.poin).toEqual(10);
+        });
+
+        it('should never go below zero', async () => {
+            const result = await calculatePoints(weightedExamId, { [weightedIds[1]]: 'A' });
+
+            expect(result).toEqual({ poin: 0, poin_maksimal: 50, nilai: 0 });
+        });
+
+        it('should store points on submit', async () => {
+            await db.insert(examAssignmentsTable)
+                .values({ exam_id: weightedExamId, user_id: userId })
+                .execute();
+            const attempt = await createAnswer({ exam_id: weightedExamId, jawaban: {} }, userId);
+
+            const result = await submitExam({ id: attempt.id, jawaban: { [weightedIds[1]]: 'B' } }, userId);
+
+            expect(result.poin).toEqual(30);
+            expect(result.poin_maksimal).toEqual(50);
+            expect(result.nilai).toEqual(60);
+            expect(result.status_kelulusan).toBeNull(); // The exam has no KKM
+        });
+
+        it('should record pass or fail against the KKM on submit', async () => {
+            await db.update(examsTable)
+                .set({ kkm: 60 })
+                .where(eq(examsTable.id, weightedExamId))
+                .execute();
+            await db.insert(examAssignmentsTable)
+                .values({ exam_id: weightedExamId, user_id: userId })
+                .execute();
+            const attempt = await createAnswer({ exam_id: weightedExamId, jawaban: {} }, userId);
+
+            const result = await submitExam({ id: attempt.id, jawaban: { [weightedIds[1]]: 'B' } }, userId);
+
+            expect(result.status_kelulusan).toEqual('lulus');
+        });
     });
 
     describe('getAnswersByExamId', () => {
@@ -400,21 +861,20 @@ describe('Answer Handlers', () => {
                 })
                 .returning()
                 .execute();
+            await db.insert(examAssignmentsTable)
+                .values({ exam_id: examId, user_id: user2[0].id })
+                .execute();
 
             // Create answers for both users
             await createAnswer({
                 exam_id: examId,
-                user_id: userId,
-                jawaban: {},
-                is_submitted: false
-            });
+                jawaban: {}
+            }, userId);
 
             await createAnswer({
                 exam_id: examId,
-                user_id: user2[0].id,
-                jawaban: {},
-                is_submitted: false
-            });
+                jawaban: {}
+            }, user2[0].id);
 
             const results = await getAnswersByExamId(examId);
 
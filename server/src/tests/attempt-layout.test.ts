@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'bun:test';
+import { seededShuffle } from '../helpers/shuffle';
+import {
+  drawQuestions,
+  buildAttemptLayout,
+  getAttemptLayout,
+  getOptionOrder,
+  toOriginalChoice,
+  applyAttemptLayout
+} from '../helpers/attempt-layout';
+
+const questions = [1, 2, 3, 4, 5].map(id => ({
+  id,
+  tipe: 'multiple_choice' as const,
+  pilihan: [`a${id}`, `b${id}`, `c${id}`, `d${id}`],
+  pasangan: null,
+  topik: null,
+  kesulitan: null
+}));
+
+const noDraw = { draw_count: null, draw_stratify_by: null };
+
+// 10 questions: 6 on aljabar, 4 on geometri; difficulty alternates mudah/sulit
+const pool = Array.from({ length: 10 }, (_, index) => ({
+  id: index + 1,
+  tipe: 'multiple_choice' as const,
+  pilihan: ['a', 'b', 'c', 'd'],
+  topik: index < 6 ? 'aljabar' : 'geometri',
+  kesulitan: index % 2 === 0 ? 'mudah' : 'sulit'
+}));
+
+describe('seededShuffle', () => {
+  it('should return the same order for the same seed', () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+
+    expect(seededShuffle(items, '42')).toEqual(seededShuffle(items, '42'));
+    expect(seededShuffle(items, '42')).not.toEqual(seededShuffle(items, '43'));
+  });
+
+  it('should keep every item and leave the input untouched', () => {
+    const items = [1, 2, 3, 4, 5];
+
+    const result = seededShuffle(items, 'seed');
+
+    expect([...result].sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('drawQuestions', () => {
+  const settings = { shuffle_questions: false, shuffle_options: false };
+
+  it('should use the whole pool without a draw count', () => {
+    expect(drawQuestions(1, { ...settings, ...noDraw }, pool)).toEqual(pool);
+    expect(drawQuestions(1, { ...settings, draw_count: 20, draw_stratify_by: null }, pool)).toEqual(pool);
+  });
+
+  it('should draw a reproducible subset per attempt', () => {
+    const drawSettings = { ...settings, draw_count: 4, draw_stratify_by: null };
+
+    const first = drawQuestions(1, drawSettings, pool);
+
+    expect(first).toHaveLength(4);
+    expect(drawQuestions(1, drawSettings, pool)).toEqual(first);
+    expect(first.map(question => question.id)).toEqual([...first.map(question => question.id)].sort((a, b) => a - b));
+
+    const draws = new Set([1, 2, 3, 4, 5].map(answerId =>
+      drawQuestions(answerId, drawSettings, pool).map(question => question.id).join()
+    ));
+    expect(draws.size).toBeGreaterThan(1);
+  });
+
+  it('should keep the topic mix when stratified', () => {
+    for (const answerId of [1, 2, 3]) {
+      const drawn = drawQuestions(answerId, { ...settings, draw_count: 5, draw_stratify_by: 'topik' }, pool);
+
+      expect(drawn).toHaveLength(5);
+      expect(drawn.filter(question => question.topik === 'aljabar')).toHaveLength(3);
+      expect(drawn.filter(question => question.topik === 'geometri')).toHaveLength(2);
+    }
+  });
+
+  it('should keep the difficulty mix when stratified', () => {
+    const drawn = drawQuestions(9, { ...settings, draw_count: 4, draw_stratify_by: 'kesulitan' }, pool);
+
+    expect(drawn.filter(question => question.kesulitan === 'mudah')).toHaveLength(2);
+    expect(drawn.filter(question => question.kesulitan === 'sulit')).toHaveLength(2);
+  });
+});
+
+describe('buildAttemptLayout', () => {
+  it('should keep the stored order when shuffling is off', () => {
+    const layout = buildAttemptLayout(7, { shuffle_questions: false, shuffle_options: false, ...noDraw }, questions);
+
+    expect(layout.questionOrder).toEqual([1, 2, 3, 4, 5]);
+    expect(layout.optionOrder['1']).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should shuffle per attempt and reproducibly', () => {
+    const settings = { shuffle_questions: true, shuffle_options: true, ...noDraw };
+
+    const first = buildAttemptLayout(7, settings, questions);
+    const again = buildAttemptLayout(7, settings, questions);
+    const other = buildAttemptLayout(8, settings, questions);
+
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect([...first.questionOrder].sort()).toEqual([1, 2, 3, 4, 5]);
+    expect([...first.optionOrder['3']].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should only lay out the drawn questions', () => {
+    const layout = buildAttemptLayout(3, { shuffle_questions: true, shuffle_options: false, draw_count: 4, draw_stratify_by: null }, pool);
+
+    expect(layout.questionOrder).toHaveLength(4);
+    expect(Object.keys(layout.optionOrder).map(Number).sort((a, b) => a - b))
+      .toEqual([...layout.questionOrder].sort((a, b) => a - b));
+  });
+
+  it('should always shuffle the items of an ordering question', () => {
+    const ordering = { id: 9, tipe: 'ordering' as const, pilihan: ['1', '2', '3', '4', '5', '6'], topik: null, kesulitan: null };
+
+    const layout = buildAttemptLayout(1, { shuffle_questions: false, shuffle_options: false, ...noDraw }, [ordering]);
+
+    expect(layout.optionOrder['9']).not.toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe('toOriginalChoice', () => {
+  const order = [2, 0, 3, 1];
+
+  it('should map the displayed letter to the stored letter', () => {
+    expect(toOriginalChoice(order, 'A')).toEqual('C');
+    expect(toOriginalChoice(order, 'b')).toEqual('A');
+    expect(toOriginalChoice(order, 'D')).toEqual('B');
+  });
+
+  it('should pass the choice through without a mapping', () => {
+    expect(toOriginalChoice(undefined, 'A')).toEqual('A');
+    expect(toOriginalChoice(order, 'Z')).toEqual('Z');
+    expect(toOriginalChoice(order, 'AB')).toEqual('AB');
+  });
+});
+
+describe('getOptionOrder', () => {
+  const layout = { questionOrder: [1], optionOrder: { '1': [2, 0, 3, 1] } };
+
+  it('should use the order recorded for the attempt', () => {
+    expect(getOptionOrder(layout, questions[0])).toEqual([2, 0, 3, 1]);
+    expect(getOptionOrder(layout, questions[1])).toBeUndefined();
+    expect(getOptionOrder(null, questions[0])).toBeUndefined();
+  });
+
+  it('should always shuffle ordering questions, even without a layout', () => {
+    const ordering = { id: 6, tipe: 'ordering' as const, pilihan: ['1', '2', '3', '4', '5', '6'] };
+
+    const order = getOptionOrder(null, ordering)!;
+
+    expect(order).toEqual(getOptionOrder(null, ordering)!);
+    expect(order).not.toEqual([0, 1, 2, 3, 4, 5]);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe('applyAttemptLayout', () => {
+  it('should order questions and options as the attempt sees them', () => {
+    const layout = { questionOrder: [3, 1], optionOrder: { '3': [3, 2, 1, 0] } };
+
+    const result = applyAttemptLayout(questions, layout);
+
+    expect(result.map(question => question.id)).toEqual([3, 1]);
+    expect(result[0].pilihan).toEqual(['d3', 'c3', 'b3', 'a3']);
+    expect(result[1].pilihan).toEqual(['a1', 'b1', 'c1', 'd1']);
+  });
+
+  it('should shuffle the right side of a matching question', () => {
+    const matching = { id: 9, tipe: 'matching' as const, pilihan: ['x', 'y', 'z'], pasangan: ['1', '2', '3'] };
+    const layout = { questionOrder: [9], optionOrder: { '9': [1, 2, 0] } };
+
+    const [result] = applyAttemptLayout([matching], layout);
+
+    expect(result.pilihan).toEqual(['x', 'y', 'z']);
+    expect(result.pasangan).toEqual(['2', '3', '1']);
+  });
+
+  it('should read layouts from answer rows', () => {
+    expect(getAttemptLayout({ question_order: null, option_order: null })).toBeNull();
+    expect(getAttemptLayout({ question_order: [2, 1], option_order: null }))
+      .toEqual({ questionOrder: [2, 1], optionOrder: {} });
+  });
+});
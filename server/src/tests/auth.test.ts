@@ -1,79 +1,27 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type LoginInput } from '../schema';
-import { hashPassword, verifyPassword, loginUser } from '../handlers/auth';
+import { usersTable, sessionsTable, loginAttemptsTable } from '../db/schema';
+import { loginInputSchema, type LoginInput, type UserProfile } from '../schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { setLoginThrottleStore, MemoryLoginThrottleStore } from '../helpers/login-throttle';
+import { 
+  loginUser, 
+  login, 
+  createSession, 
+  getSessionUser, 
+  revokeSession, 
+  refreshSession, 
+  unlockAccount, 
+  getLoginAttempts 
+} from '../handlers/auth';
 
 describe('auth handlers', () => {
   beforeEach(createDB);
+  beforeEach(() => setLoginThrottleStore(new MemoryLoginThrottleStore()));
   afterEach(resetDB);
 
-  describe('hashPassword', () => {
-    it('should hash a password', async () => {
-      const password = 'testpassword123';
-      const hashedPassword = await hashPassword(password);
-
-      expect(hashedPassword).toBeDefined();
-      expect(hashedPassword).not.toEqual(password);
-      expect(hashedPassword.includes(':')).toBe(true); // Should contain salt:hash format
-      expect(hashedPassword.length).toBeGreaterThan(100); // Combined salt and hash should be long
-    });
-
-    it('should generate different hashes for same password', async () => {
-      const password = 'samepassword';
-      const hash1 = await hashPassword(password);
-      const hash2 = await hashPassword(password);
-
-      expect(hash1).not.toEqual(hash2); // Salt makes each hash unique
-    });
-
-    it('should produce consistent hash length', async () => {
-      const password1 = 'short';
-      const password2 = 'verylongpasswordwithmanycharacters';
-      
-      const hash1 = await hashPassword(password1);
-      const hash2 = await hashPassword(password2);
-
-      expect(hash1.length).toEqual(hash2.length); // PBKDF2 produces consistent length
-    });
-  });
-
-  describe('verifyPassword', () => {
-    it('should verify correct password', async () => {
-      const password = 'correctpassword';
-      const hashedPassword = await hashPassword(password);
-
-      const isValid = await verifyPassword(password, hashedPassword);
-      expect(isValid).toBe(true);
-    });
-
-    it('should reject incorrect password', async () => {
-      const correctPassword = 'correctpassword';
-      const incorrectPassword = 'wrongpassword';
-      const hashedPassword = await hashPassword(correctPassword);
-
-      const isValid = await verifyPassword(incorrectPassword, hashedPassword);
-      expect(isValid).toBe(false);
-    });
-
-    it('should reject password against invalid hash format', async () => {
-      const password = 'testpassword';
-      const invalidHash = 'invalidhash';
-
-      const isValid = await verifyPassword(password, invalidHash);
-      expect(isValid).toBe(false);
-    });
-
-    it('should reject password against malformed hash', async () => {
-      const password = 'testpassword';
-      const malformedHash = 'salt:hash:extra';
-
-      const isValid = await verifyPassword(password, malformedHash);
-      expect(isValid).toBe(false);
-    });
-  });
-
   describe('loginUser', () => {
     const testUser = {
       nama: 'Test User',
@@ -108,6 +56,7 @@ describe('auth handlers', () => {
       expect(result!.id).toBeDefined();
       expect(result!.created_at).toBeInstanceOf(Date);
       expect(typeof result!.id).toBe('number');
+      expect('password' in result!).toBe(false); // Hash never leaves the server
     });
 
     it('should return null for non-existent user', async () => {
@@ -169,8 +118,7 @@ describe('auth handlers', () => {
       expect(result!.kelas).toBeNull();
     });
 
-    it('should handle case-sensitive email correctly', async () => {
-      // Create user with lowercase email
+    it('should match emails regardless of case', async () => {
       const hashedPassword = await hashPassword(testUser.password);
       await db.insert(usersTable)
         .values({
@@ -180,14 +128,70 @@ describe('auth handlers', () => {
         })
         .execute();
 
-      // Try to login with different case
-      const loginInput: LoginInput = {
+      // The login procedure lower-cases the email through its input schema
+      const loginInput = loginInputSchema.parse({
         email: testUser.email.toUpperCase(),
         password: testUser.password
-      };
+      });
 
       const result = await loginUser(loginInput);
-      expect(result).toBeNull(); // Should fail due to case sensitivity
+      expect(result).not.toBeNull();
+      expect(result!.email).toEqual(testUser.email.toLowerCase());
+    });
+
+    it('should find accounts stored with a mixed-case email', async () => {
+      const hashedPassword = await hashPassword(testUser.password);
+      await db.insert(usersTable)
+        .values({
+          ...testUser,
+          email: 'Mixed.Case@Test.com',
+          password: hashedPassword
+        })
+        .execute();
+
+      const result = await loginUser(loginInputSchema.parse({ email: 'mixed.case@test.com', password: testUser.password }));
+
+      expect(result).not.toBeNull();
+    });
+
+    it('should rehash a legacy base64 password on login', async () => {
+      const legacyHash = Buffer.from(testUser.password).toString('base64');
+      const inserted = await db.insert(usersTable)
+        .values({
+          ...testUser,
+          password: legacyHash
+        })
+        .returning()
+        .execute();
+
+      const result = await loginUser({ email: testUser.email, password: testUser.password });
+      expect(result).not.toBeNull();
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, inserted[0].id))
+        .execute();
+      expect(users[0].password).not.toEqual(legacyHash);
+      expect(users[0].password.startsWith('scrypt:')).toBe(true);
+      expect(await verifyPassword(testUser.password, users[0].password)).toBe(true);
+    });
+
+    it('should keep a current hash unchanged on login', async () => {
+      const hashedPassword = await hashPassword(testUser.password);
+      await db.insert(usersTable)
+        .values({
+          ...testUser,
+          password: hashedPassword
+        })
+        .execute();
+
+      await loginUser({ email: testUser.email, password: testUser.password });
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, testUser.email))
+        .execute();
+      expect(users[0].password).toEqual(hashedPassword);
     });
 
     it('should handle user with corrupted password hash', async () => {
@@ -208,4 +212,315 @@ describe('auth handlers', () => {
       expect(result).toBeNull(); // Should fail due to invalid hash
     });
   });
-});
\ No newline at end of file
+
+  describe('sessions', () => {
+    const testUser = {
+      nama: 'Session User',
+      email: 'session@example.com',
+      password: 'password123',
+      role: 'peserta' as const,
+      kelas: '12A'
+    };
+
+    let user: UserProfile;
+
+    beforeEach(async () => {
+      const hashedPassword = await hashPassword(testUser.password);
+      const result = await db.insert(usersTable)
+        .values({
+          ...testUser,
+          password: hashedPassword
+        })
+        .returning()
+        .execute();
+      const { password, ...profile } = result[0];
+      user = profile;
+    });
+
+    it('should issue a session token on login', async () => {
+      const result = await login({ email: testUser.email, password: testUser.password });
+
+      expect(result).not.toBeNull();
+      expect(result!.user.id).toEqual(user.id);
+      expect(typeof result!.token).toBe('string');
+      expect(result!.token.length).toBeGreaterThan(30);
+      expect(result!.expires_at).toBeInstanceOf(Date);
+      expect(result!.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should signal a required password change on login', async () => {
+      await db.update(usersTable)
+        .set({ must_change_password: true })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      const result = await login({ email: testUser.email, password: testUser.password });
+
+      expect(result!.user.must_change_password).toBe(true);
+    });
+
+    it('should not issue a session for wrong credentials', async () => {
+      const result = await login({ email: testUser.email, password: 'wrongpassword' });
+
+      expect(result).toBeNull();
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should store only the token hash', async () => {
+      const { token } = await createSession(user);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_id).toEqual(user.id);
+      expect(sessions[0].token_hash).not.toEqual(token);
+      expect(sessions[0].revoked_at).toBeNull();
+    });
+
+    it('should resolve a valid token to its user', async () => {
+      const { token } = await createSession(user);
+
+      const result = await getSessionUser(token);
+      expect(result).not.toBeNull();
+      expect(result!.id).toEqual(user.id);
+      expect(result!.email).toEqual(testUser.email);
+      expect('password' in result!).toBe(false);
+    });
+
+    it('should reject an expired token', async () => {
+      const { token } = await createSession(user);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      const result = await getSessionUser(token);
+      expect(result).toBeNull();
+    });
+
+    it('should reject a revoked token', async () => {
+      const { token } = await createSession(user);
+
+      await revokeSession(token);
+
+      const result = await getSessionUser(token);
+      expect(result).toBeNull();
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a forged token', async () => {
+      const { token } = await createSession(user);
+
+      expect(await getSessionUser('forged-token')).toBeNull();
+      expect(await getSessionUser(token.slice(0, -1) + (token.endsWith('A') ? 'B' : 'A'))).toBeNull();
+      expect(await getSessionUser('')).toBeNull();
+    });
+
+    it('should rotate the token on refresh', async () => {
+      const { token } = await createSession(user);
+
+      const refreshed = await refreshSession(token);
+
+      expect(refreshed.token).not.toEqual(token);
+      expect(refreshed.user.id).toEqual(user.id);
+      expect(await getSessionUser(token)).toBeNull(); // Old token revoked
+      expect((await getSessionUser(refreshed.token))!.id).toEqual(user.id);
+    });
+
+    it('should not refresh a revoked token', async () => {
+      const { token } = await createSession(user);
+      await revokeSession(token);
+
+      await expect(refreshSession(token)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not refresh an expired token', async () => {
+      const { token } = await createSession(user);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      await expect(refreshSession(token)).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('login throttling', () => {
+    const testUser = {
+      nama: 'Throttle User',
+      email: 'throttle@example.com',
+      password: 'password123',
+      role: 'peserta' as const,
+      kelas: '12A'
+    };
+
+    let userId: number;
+
+    beforeEach(async () => {
+      const hashedPassword = await hashPassword(testUser.password);
+      const result = await db.insert(usersTable)
+        .values({
+          ...testUser,
+          password: hashedPassword
+        })
+        .returning()
+        .execute();
+      userId = result[0].id;
+    });
+
+    afterEach(() => {
+      delete process.env['LOGIN_BACKOFF_AFTER'];
+      delete process.env['LOGIN_MAX_FAILURES'];
+      delete process.env['LOGIN_MAX_IP_FAILURES'];
+    });
+
+    const failLogin = (ipAddress: string | null = '10.0.0.1') =>
+      login({ email: testUser.email, password: 'wrongpassword' }, ipAddress);
+
+    it('should back off after repeated failures', async () => {
+      await failLogin();
+      await failLogin();
+      await failLogin(); // Third failure starts the backoff
+
+      await expect(login({ email: testUser.email, password: testUser.password }, '10.0.0.1'))
+        .rejects.toThrow(/too many failed login attempts/i);
+    });
+
+    it('should lock the account after the maximum failures', async () => {
+      process.env['LOGIN_BACKOFF_AFTER'] = '100'; // Disable backoff to reach the lockout directly
+
+      for (let i = 0; i < 5; i++) {
+        expect(await failLogin()).toBeNull();
+      }
+
+      // Correct password from a different address is still rejected
+      await expect(login({ email: testUser.email, password: testUser.password }, '10.0.0.2'))
+        .rejects.toThrow(/too many failed login attempts/i);
+    });
+
+    it('should not let parallel guesses past the lockout', async () => {
+      process.env['LOGIN_BACKOFF_AFTER'] = '100';
+
+      const results = await Promise.allSettled(Array.from({ length: 10 }, () => failLogin()));
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(5);
+      expect(results.filter(r => r.status === 'rejected')).toHaveLength(5);
+      const checked = await db.select()
+        .from(loginAttemptsTable)
+        .where(eq(loginAttemptsTable.reason, 'invalid_credentials'))
+        .execute();
+      expect(checked).toHaveLength(5);
+    });
+
+    it('should forget expired counters', async () => {
+      const store = new MemoryLoginThrottleStore();
+      await store.increment('ip:10.0.0.1', new Date(Date.now() - 1000));
+
+      expect(await store.get('ip:10.0.0.1')).toBeNull();
+      expect((await store.increment('ip:10.0.0.1', new Date(Date.now() + 60000))).failures).toEqual(1);
+    });
+
+    it('should lock a client address across accounts', async () => {
+      process.env['LOGIN_BACKOFF_AFTER'] = '100';
+      process.env['LOGIN_MAX_IP_FAILURES'] = '3';
+
+      for (let i = 0; i < 3; i++) {
+        await login({ email: `unknown${i}@example.com`, password: 'wrongpassword' }, '10.0.0.9');
+      }
+
+      await expect(login({ email: testUser.email, password: testUser.password }, '10.0.0.9'))
+        .rejects.toThrow(/too many failed login attempts/i);
+
+      // Other addresses are unaffected
+      const result = await login({ email: testUser.email, password: testUser.password }, '10.0.0.3');
+      expect(result).not.toBeNull();
+    });
+
+    it('should reset the account counter after a successful login', async () => {
+      process.env['LOGIN_BACKOFF_AFTER'] = '100';
+
+      for (let i = 0; i < 4; i++) {
+        await failLogin();
+      }
+      expect(await login({ email: testUser.email, password: testUser.password }, '10.0.0.1')).not.toBeNull();
+
+      // Counter starts over, so one more failure does not lock the account
+      await failLogin();
+      expect(await login({ email: testUser.email, password: testUser.password }, '10.0.0.1')).not.toBeNull();
+    });
+
+    it('should unlock a locked account', async () => {
+      process.env['LOGIN_BACKOFF_AFTER'] = '100';
+
+      for (let i = 0; i < 5; i++) {
+        await failLogin(null);
+      }
+      await expect(login({ email: testUser.email, password: testUser.password }))
+        .rejects.toThrow(/too many failed login attempts/i);
+
+      await unlockAccount(userId);
+
+      const result = await login({ email: testUser.email, password: testUser.password });
+      expect(result).not.toBeNull();
+    });
+
+    it('should throw when unlocking a non-existent user', async () => {
+      await expect(unlockAccount(99999)).rejects.toThrow(/user not found/i);
+    });
+
+    it('should record every attempt in the history', async () => {
+      await failLogin();
+      await login({ email: testUser.email, password: testUser.password }, '10.0.0.1');
+      await login({ email: 'nobody@example.com', password: 'whatever' }, '10.0.0.1');
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(3);
+
+      const failed = attempts.find(a => a.email === testUser.email && !a.success)!;
+      expect(failed.user_id).toEqual(userId);
+      expect(failed.ip_address).toEqual('10.0.0.1');
+      expect(failed.reason).toEqual('invalid_credentials');
+
+      const succeeded = attempts.find(a => a.success)!;
+      expect(succeeded.reason).toBeNull();
+
+      const unknown = attempts.find(a => a.email === 'nobody@example.com')!;
+      expect(unknown.user_id).toBeNull();
+    });
+
+    it('should record blocked attempts as locked', async () => {
+      await failLogin();
+      await failLogin();
+      await failLogin();
+      await expect(failLogin()).rejects.toThrow(/too many/i);
+
+      const attempts = await db.select()
+        .from(loginAttemptsTable)
+        .where(eq(loginAttemptsTable.reason, 'locked'))
+        .execute();
+      expect(attempts).toHaveLength(1);
+    });
+
+    it('should list attempts newest first and filter by email', async () => {
+      await failLogin();
+      await login({ email: 'other@example.com', password: 'whatever' }, '10.0.0.1');
+      await login({ email: testUser.email, password: testUser.password }, '10.0.0.1');
+
+      const all = await getLoginAttempts({ limit: 100 });
+      expect(all).toHaveLength(3);
+      expect(all[0].success).toBe(true); // Most recent first
+      expect(all[0].created_at).toBeInstanceOf(Date);
+
+      const filtered = await getLoginAttempts({ email: testUser.email, limit: 100 });
+      expect(filtered).toHaveLength(2);
+      expect(filtered.every(a => a.email === testUser.email)).toBe(true);
+
+      const limited = await getLoginAttempts({ limit: 1 });
+      expect(limited).toHaveLength(1);
+    });
+  });
+});
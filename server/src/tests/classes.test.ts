@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, classesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  normalizeClassName,
+  createClass,
+  getAllClasses,
+  getClassById,
+  updateClass,
+  deleteClass,
+  getClassMembers,
+  assignUsersToClass,
+  migrateLegacyKelas
+} from '../handlers/classes';
+
+const createTestUser = async (email: string, overrides: Partial<typeof usersTable.$inferInsert> = {}) => {
+  const result = await db.insert(usersTable)
+    .values({
+      nama: email.split('@')[0],
+      email,
+      password: 'hashed',
+      role: 'peserta',
+      ...overrides
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('normalizeClassName', () => {
+  it('should upper-case and collapse separators', () => {
+    expect(normalizeClassName('  xii   ipa-1 ')).toEqual('XII IPA 1');
+    expect(normalizeClassName('x_mipa.3')).toEqual('X MIPA 3');
+  });
+
+  it('should write a numeric grade as a roman numeral', () => {
+    expect(normalizeClassName('12 ipa 1')).toEqual('XII IPA 1');
+    expect(normalizeClassName('7A')).toEqual('7A');
+    expect(normalizeClassName('13 IPA')).toEqual('13 IPA');
+  });
+});
+
+describe('class handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createClass', () => {
+    it('should create a class with a normalized name', async () => {
+      const result = await createClass({ nama: '12 ipa-1' });
+
+      expect(result.nama).toEqual('XII IPA 1');
+      expect(result.id).toBeDefined();
+      expect(result.created_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a duplicate name', async () => {
+      await createClass({ nama: 'XII IPA 1' });
+
+      await expect(createClass({ nama: '12 ipa 1' }))
+        .rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('getAllClasses', () => {
+    it('should return classes ordered by name', async () => {
+      await createClass({ nama: 'XI IPS 1' });
+      await createClass({ nama: 'X MIPA 2' });
+
+      const result = await getAllClasses();
+
+      expect(result.map(c => c.nama)).toEqual(['X MIPA 2', 'XI IPS 1']);
+    });
+  });
+
+  describe('updateClass', () => {
+    it('should rename a class', async () => {
+      const created = await createClass({ nama: 'X 1' });
+
+      const result = await updateClass({ id: created.id, nama: 'x mipa 1' });
+
+      expect(result.nama).toEqual('X MIPA 1');
+    });
+
+    it('should reject renaming onto another class', async () => {
+      await createClass({ nama: 'X 1' });
+      const other = await createClass({ nama: 'X 2' });
+
+      await expect(updateClass({ id: other.id, nama: 'X 1' }))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should throw for a non-existent class', async () => {
+      await expect(updateClass({ id: 999, nama: 'X 1' }))
+        .rejects.toThrow(/class not found/i);
+    });
+  });
+
+  describe('deleteClass', () => {
+    it('should keep members and clear their class', async () => {
+      const created = await createClass({ nama: 'X 1' });
+      const user = await createTestUser('andi@school.id', { class_id: created.id });
+
+      await deleteClass(created.id);
+
+      expect(await getClassById(created.id)).toBeNull();
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      expect(users).toHaveLength(1);
+      expect(users[0].class_id).toBeNull();
+    });
+
+    it('should throw for a non-existent class', async () => {
+      await expect(deleteClass(999)).rejects.toThrow(/class not found/i);
+    });
+  });
+
+  describe('assignUsersToClass', () => {
+    it('should move participants and list them as members', async () => {
+      const first = await createClass({ nama: 'X 1' });
+      const second = await createClass({ nama: 'X 2' });
+      const andi = await createTestUser('andi@school.id', { class_id: first.id });
+      const rina = await createTestUser('rina@school.id', { kelas: 'X 1' });
+
+      const result = await assignUsersToClass({ classId: second.id, userIds: [andi.id, rina.id] });
+
+      expect(result).toHaveLength(2);
+      expect(result.every(user => user.kelas === 'X 2')).toBe(true);
+      expect(await getClassMembers(first.id)).toHaveLength(0);
+
+      const members = await getClassMembers(second.id);
+      expect(members.map(user => user.email)).toEqual(['andi@school.id', 'rina@school.id']);
+      expect('password' in members[0]).toBe(false);
+    });
+
+    it('should remove participants from their class', async () => {
+      const created = await createClass({ nama: 'X 1' });
+      const andi = await createTestUser('andi@school.id', { class_id: created.id });
+
+      const result = await assignUsersToClass({ classId: null, userIds: [andi.id] });
+
+      expect(result[0].class_id).toBeNull();
+      expect(result[0].kelas).toBeNull();
+    });
+
+    it('should reject admins and unknown ids without moving anyone', async () => {
+      const created = await createClass({ nama: 'X 1' });
+      const andi = await createTestUser('andi@school.id');
+      const admin = await createTestUser('admin@school.id', { role: 'admin' });
+
+      await expect(assignUsersToClass({ classId: created.id, userIds: [andi.id, admin.id] }))
+        .rejects.toThrow(/not participants/i);
+      await expect(assignUsersToClass({ classId: created.id, userIds: [andi.id, 999] }))
+        .rejects.toThrow(/not participants/i);
+
+      expect(await getClassMembers(created.id)).toHaveLength(0);
+    });
+
+    it('should reject an unknown class', async () => {
+      const andi = await createTestUser('andi@school.id');
+
+      await expect(assignUsersToClass({ classId: 999, userIds: [andi.id] }))
+        .rejects.toThrow(/class not found/i);
+    });
+  });
+
+  describe('migrateLegacyKelas', () => {
+    it('should merge spelling variants into one class', async () => {
+      await createTestUser('andi@school.id', { kelas: '12 ipa-1' });
+      await createTestUser('rina@school.id', { kelas: 'XII IPA 1' });
+      await createTestUser('budi@school.id', { kelas: 'x mipa 2' });
+      await createTestUser('sari@school.id');
+
+      const result = await migrateLegacyKelas();
+
+      expect(result).toEqual({ classesCreated: 2, usersMigrated: 3 });
+
+      const classes = await db.select().from(classesTable).execute();
+      expect(classes.map(c => c.nama).sort()).toEqual(['X MIPA 2', 'XII IPA 1']);
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users.every(user => user.kelas === null)).toBe(true);
+    });
+
+    it('should reuse existing classes and be safe to run again', async () => {
+      const existing = await createClass({ nama: 'XII IPA 1' });
+      const andi = await createTestUser('andi@school.id', { kelas: '12 IPA 1' });
+
+      expect(await migrateLegacyKelas()).toEqual({ classesCreated: 0, usersMigrated: 1 });
+      expect(await migrateLegacyKelas()).toEqual({ classesCreated: 0, usersMigrated: 0 });
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, andi.id))
+        .execute();
+      expect(users[0].class_id).toEqual(existing.id);
+    });
+  });
+});
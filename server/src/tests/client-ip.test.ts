@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { type IncomingMessage } from 'http';
+import { getClientIp } from '../helpers/client-ip';
+
+const request = (remoteAddress: string | undefined, realIp?: string) => ({
+  headers: realIp === undefined ? {} : { 'x-real-ip': realIp },
+  socket: { remoteAddress }
+}) as unknown as IncomingMessage;
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    delete process.env['TRUSTED_PROXIES'];
+  });
+
+  it('should take X-Real-IP from the local proxy', () => {
+    expect(getClientIp(request('127.0.0.1', '203.0.113.7'))).toEqual('203.0.113.7');
+    expect(getClientIp(request('::ffff:127.0.0.1', '203.0.113.7'))).toEqual('203.0.113.7');
+  });
+
+  it('should ignore X-Real-IP from other clients', () => {
+    expect(getClientIp(request('198.51.100.20', '203.0.113.7'))).toEqual('198.51.100.20');
+  });
+
+  it('should use the socket address without the header', () => {
+    expect(getClientIp(request('127.0.0.1'))).toEqual('127.0.0.1');
+    expect(getClientIp(request(undefined))).toBeNull();
+  });
+
+  it('should trust the configured proxies only', () => {
+    process.env['TRUSTED_PROXIES'] = '10.0.0.2, 10.0.0.3';
+
+    expect(getClientIp(request('10.0.0.3', '203.0.113.7'))).toEqual('203.0.113.7');
+    expect(getClientIp(request('127.0.0.1', '203.0.113.7'))).toEqual('127.0.0.1');
+  });
+});
@@ -1,9 +1,22 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, examsTable, answersTable } from '../db/schema';
+import { usersTable, examsTable, answersTable, classesTable, examAssignmentsTable, questionsTable } from '../db/schema';
 import { type GetExamResultsInput } from '../schema';
-import { getDashboardStats, getExamResults, getAllExamResults, exportExamResultsToCSV } from '../handlers/dashboard';
+import { eq } from 'drizzle-orm';
+import {
+  getDashboardStats,
+  getExamResults,
+  getExamStatistics,
+  getClassReport,
+  getParticipantReport,
+  getAllExamResults,
+  exportExamResultsToCSV,
+  streamExamResultsCSV,
+  exportExamResultsToXLSX
+} from '../handlers/dashboard';
+import { parseCSV } from '../helpers/csv';
+import ExcelJS from 'exceljs';
 
 describe('dashboard handlers', () => {
   beforeEach(createDB);
@@ -132,6 +145,19 @@ describe('dashboard handlers', () => {
       // Should only count the 3 submitted answers, not the unsubmitted one
       expect(stats.averageScore).toBeCloseTo(85); // (85 + 92 + 78) / 3
     });
+
+    it('should report the pass rate of exams with a KKM', async () => {
+      const { exams } = await createTestData();
+      expect((await getDashboardStats()).passRate).toEqual(0);
+
+      await db.update(examsTable)
+        .set({ kkm: 90 })
+        .where(eq(examsTable.id, exams[0].id))
+        .execute();
+
+      // 92 passes and 85 fails on the first exam; the second exam has no KKM
+      expect((await getDashboardStats()).passRate).toEqual(50);
+    });
   });
 
   describe('getExamResults', () => {
@@ -187,6 +213,269 @@ describe('dashboard handlers', () => {
     });
   });
 
+  describe('score policy', () => {
+    // Three submitted attempts (60, 90, 72 out of 100 points) by one participant on an exam with the given policy
+    async function createRetakes(policy: 'highest' | 'latest' | 'average') {
+      const { users, exams } = await createTestData();
+      await db.update(examsTable)
+        .set({ max_attempts: 3, score_policy: policy })
+        .execute();
+      await db.delete(answersTable).execute();
+
+      for (const [index, nilai] of [60, 90, 72].entries()) {
+        await db.insert(answersTable).values({
+          exam_id: exams[0].id,
+          user_id: users[1].id,
+          attempt_number: index + 1,
+          jawaban: {},
+          nilai,
+          poin: nilai,
+          poin_maksimal: 100,
+          waktu_submit: new Date(`2024-01-15T0${index + 1}:00:00Z`),
+          is_submitted: true
+        }).execute();
+      }
+
+      return exams[0].id;
+    }
+
+    it('should count the highest attempt', async () => {
+      const examId = await createRetakes('highest');
+
+      const results = await getExamResults({ examId });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].nilai).toEqual(90);
+      expect(results[0].poin).toEqual(90);
+      expect(results[0].poin_maksimal).toEqual(100);
+      expect(results[0].waktu_submit).toEqual(new Date('2024-01-15T02:00:00Z'));
+      expect(results[0].attempt_count).toEqual(3);
+    });
+
+    it('should count the latest attempt', async () => {
+      const examId = await createRetakes('latest');
+
+      const results = await getExamResults({ examId });
+
+      expect(results[0].nilai).toEqual(72);
+    });
+
+    it('should average the attempts', async () => {
+      const examId = await createRetakes('average');
+
+      const results = await getExamResults({ examId });
+
+      expect(results[0].nilai).toEqual(74);
+      expect(results[0].poin).toEqual(74);
+      expect((await getDashboardStats()).averageScore).toEqual(74);
+    });
+
+    it('should ignore an unsubmitted retake', async () => {
+      const examId = await createRetakes('latest');
+      const results = await getExamResults({ examId });
+      await db.insert(answersTable).values({
+        exam_id: examId,
+        user_id: results[0].user_id,
+        attempt_number: 4,
+        jawaban: {},
+        nilai: 0,
+        waktu_submit: new Date(),
+        is_submitted: false
+      }).execute();
+
+      const updated = await getExamResults({ examId });
+
+      expect(updated[0].nilai).toEqual(72);
+      expect(updated[0].is_submitted).toBe(true);
+      expect(updated[0].attempt_count).toEqual(4);
+    });
+  });
+
+  describe('pass status', () => {
+    it('should judge the counted score against the KKM', async () => {
+      const { exams } = await createTestData();
+      await db.update(examsTable)
+        .set({ kkm: 90 })
+        .where(eq(examsTable.id, exams[0].id))
+        .execute();
+
+      const results = await getExamResults({ examId: exams[0].id });
+
+      expect(results.map(result => [result.nilai, result.status_kelulusan])).toEqual([[85, 'tidak_lulus'], [92, 'lulus']]);
+    });
+
+    it('should filter results by status', async () => {
+      const { exams } = await createTestData();
+      await db.update(examsTable)
+        .set({ kkm: 90 })
+        .where(eq(examsTable.id, exams[0].id))
+        .execute();
+
+      const passed = await getExamResults({ examId: exams[0].id, status: 'lulus' });
+      const failed = await getExamResults({ examId: exams[0].id, status: 'tidak_lulus' });
+
+      expect(passed.map(result => result.user_nama)).toEqual(['Peserta Dua']);
+      expect(failed.map(result => result.user_nama)).toEqual(['Peserta Satu']);
+    });
+
+    it('should have no status without a KKM or while unsubmitted', async () => {
+      await createTestData();
+
+      const results = await getAllExamResults();
+
+      expect(results.every(result => result.status_kelulusan === null)).toBe(true);
+
+      await db.update(examsTable).set({ kkm: 50 }).execute();
+      const unsubmitted = (await getAllExamResults()).find(result => !result.is_submitted);
+      expect(unsubmitted?.status_kelulusan).toBeNull();
+    });
+  });
+
+  describe('getExamStatistics', () => {
+    it('should describe the submitted scores of an exam', async () => {
+      const { exams } = await createTestData();
+
+      const stats = await getExamStatistics({ examId: exams[0].id, bucketSize: 10 });
+
+      expect(stats).toMatchObject({
+        count: 2,
+        pendingCount: 0,
+        mean: 88.5,
+        median: 88.5,
+        mode: [85, 92],
+        standardDeviation: 3.5,
+        min: 85,
+        max: 92,
+        quartiles: { q1: 86.75, q2: 88.5, q3: 90.25 }
+      });
+      expect(stats.histogram).toHaveLength(10);
+      expect(stats.histogram.slice(8)).toEqual([
+        { from: 80, to: 90, count: 1 },
+        { from: 90, to: 100, count: 1 }
+      ]);
+    });
+
+    it('should leave out unsubmitted results', async () => {
+      const { exams } = await createTestData();
+
+      const stats = await getExamStatistics({ examId: exams[1].id, bucketSize: 25 });
+
+      expect(stats.count).toEqual(1);
+      expect(stats.histogram).toEqual([
+        { from: 0, to: 25, count: 0 },
+        { from: 25, to: 50, count: 0 },
+        { from: 50, to: 75, count: 0 },
+        { from: 75, to: 100, count: 1 }
+      ]);
+    });
+
+    it('should filter by class', async () => {
+      const { users, exams } = await createTestData();
+      const kelas = await db.insert(classesTable).values({ nama: 'XII IPA 1' }).returning().execute();
+      await db.update(usersTable)
+        .set({ class_id: kelas[0].id })
+        .where(eq(usersTable.id, users[1].id))
+        .execute();
+
+      const stats = await getExamStatistics({ examId: exams[0].id, classId: kelas[0].id, bucketSize: 10 });
+
+      expect(stats.classId).toEqual(kelas[0].id);
+      expect(stats.count).toEqual(1);
+      expect(stats.mean).toEqual(85);
+    });
+
+    it('should return empty statistics without results', async () => {
+      const { exams } = await createTestData();
+      await db.delete(answersTable).execute();
+
+      const stats = await getExamStatistics({ examId: exams[0].id, bucketSize: 10 });
+
+      expect(stats.count).toEqual(0);
+      expect(stats.mean).toBeNull();
+      expect(stats.mode).toEqual([]);
+      expect(stats.quartiles).toBeNull();
+    });
+
+    it('should reject an unknown exam', async () => {
+      await expect(getExamStatistics({ examId: 999, bucketSize: 10 })).rejects.toThrow(/exam not found/i);
+    });
+  });
+
+  describe('getClassReport', () => {
+    it('should rank classes by their average score', async () => {
+      await createTestData();
+
+      const report = await getClassReport({});
+
+      expect(report).toEqual([
+        { kelas: 'XII IPA 2', participantCount: 1, resultCount: 1, averageScore: 92, passRate: null, rank: 1 },
+        { kelas: 'XII IPA 1', participantCount: 1, resultCount: 2, averageScore: 81.5, passRate: null, rank: 2 }
+      ]);
+    });
+
+    it('should report one exam with its pass rate', async () => {
+      const { exams } = await createTestData();
+      await db.update(examsTable)
+        .set({ kkm: 90 })
+        .where(eq(examsTable.id, exams[0].id))
+        .execute();
+
+      const report = await getClassReport({ examId: exams[0].id });
+
+      expect(report.map(row => [row.kelas, row.passRate])).toEqual([['XII IPA 2', 100], ['XII IPA 1', 0]]);
+    });
+
+    it('should give tied classes the same rank', async () => {
+      const { exams, answers } = await createTestData();
+      await db.update(answersTable)
+        .set({ nilai: 85 })
+        .where(eq(answersTable.id, answers[1].id))
+        .execute();
+
+      const report = await getClassReport({ examId: exams[0].id });
+
+      expect(report.map(row => [row.kelas, row.rank])).toEqual([['XII IPA 1', 1], ['XII IPA 2', 1]]);
+    });
+  });
+
+  describe('getParticipantReport', () => {
+    it('should list the score trend oldest first', async () => {
+      const { users } = await createTestData();
+
+      const report = await getParticipantReport(users[1].id);
+
+      expect(report.kelas).toEqual('XII IPA 1');
+      expect(report.examCount).toEqual(2);
+      expect(report.averageScore).toEqual(81.5);
+      expect(report.trend.map(point => [point.examJudul, point.nilai])).toEqual([
+        ['Ujian Matematika', 85],
+        ['Ujian Fisika', 78]
+      ]);
+      expect(report.missedExams).toEqual([]);
+    });
+
+    it('should list closed assigned exams without a submission as missed', async () => {
+      const { users, exams } = await createTestData();
+      await db.insert(examAssignmentsTable)
+        .values([
+          { exam_id: exams[0].id, user_id: users[2].id },
+          { exam_id: exams[1].id, user_id: users[2].id }
+        ])
+        .execute();
+
+      const report = await getParticipantReport(users[2].id);
+
+      expect(report.examCount).toEqual(1);
+      expect(report.missedExams).toEqual([
+        { examId: exams[1].id, examJudul: 'Ujian Fisika', tanggalSelesai: exams[1].tanggal_selesai }
+      ]);
+    });
+
+    it('should reject an unknown user', async () => {
+      await expect(getParticipantReport(999)).rejects.toThrow(/user not found/i);
+    });
+  });
+
   describe('getAllExamResults', () => {
     it('should return all exam results from all exams', async () => {
       await createTestData();
@@ -211,41 +500,41 @@ describe('dashboard handlers', () => {
   });
 
   describe('exportExamResultsToCSV', () => {
+    const csvOptions = { includeQuestions: false, delimiter: ',' as const, bom: false };
+
     it('should export specific exam results to CSV format', async () => {
       const testData = await createTestData();
 
-      const csvContent = await exportExamResultsToCSV(testData.exams[0].id);
+      const csvContent = await exportExamResultsToCSV({ ...csvOptions, examId: testData.exams[0].id });
 
-      expect(csvContent).toContain('User ID,Nama Peserta,Kelas,Exam ID,Judul Ujian,Nilai,Waktu Submit,Status Submit');
-      expect(csvContent).toContain('"Peserta Satu"');
-      expect(csvContent).toContain('"Peserta Dua"');
-      expect(csvContent).toContain('"Ujian Matematika"');
+      expect(csvContent).toContain('User ID,Nama Peserta,Kelas,Exam ID,Judul Ujian,Nilai,Waktu Submit,Status Submit\r\n');
+      expect(csvContent).toContain('Peserta Satu');
+      expect(csvContent).toContain('Peserta Dua');
+      expect(csvContent).toContain('Ujian Matematika');
       expect(csvContent).toContain('85');
       expect(csvContent).toContain('92');
       expect(csvContent).toContain('Submitted');
       
       // Should only contain results from the specified exam
-      expect(csvContent).not.toContain('"Ujian Fisika"');
+      expect(csvContent).not.toContain('Ujian Fisika');
       
       // Count rows (header + 2 data rows)
-      const rows = csvContent.split('\n');
-      expect(rows).toHaveLength(3);
+      expect(parseCSV(csvContent)).toHaveLength(3);
     });
 
     it('should export all exam results when no examId provided', async () => {
       await createTestData();
 
-      const csvContent = await exportExamResultsToCSV();
+      const csvContent = await exportExamResultsToCSV(csvOptions);
 
       expect(csvContent).toContain('User ID,Nama Peserta,Kelas,Exam ID,Judul Ujian,Nilai,Waktu Submit,Status Submit');
-      expect(csvContent).toContain('"Ujian Matematika"');
-      expect(csvContent).toContain('"Ujian Fisika"');
+      expect(csvContent).toContain('Ujian Matematika');
+      expect(csvContent).toContain('Ujian Fisika');
       expect(csvContent).toContain('Submitted');
       expect(csvContent).toContain('Not Submitted');
       
       // Count rows (header + 4 data rows)
-      const rows = csvContent.split('\n');
-      expect(rows).toHaveLength(5);
+      expect(parseCSV(csvContent)).toHaveLength(5);
     });
 
     it('should handle null kelas values in CSV export', async () => {
@@ -277,22 +566,175 @@ describe('dashboard handlers', () => {
         progress_jawaban: null
       }).execute();
 
-      const csvContent = await exportExamResultsToCSV();
+      const csvContent = await exportExamResultsToCSV(csvOptions);
       
       // Should handle null kelas as empty string
-      expect(csvContent).toContain('User No Class');
-      const userRow = csvContent.split('\n').find(row => row.includes('User No Class'));
+      const userRow = parseCSV(csvContent).find(row => row[1] === 'User No Class');
       expect(userRow).toBeDefined();
-      
-      // Check that the kelas field (3rd column) is empty
-      const columns = userRow!.split(',');
-      expect(columns[2]).toEqual(''); // Empty string for null kelas
+      expect(userRow![2]).toEqual(''); // Empty string for null kelas
     });
 
     it('should return empty CSV with headers when no data exists', async () => {
-      const csvContent = await exportExamResultsToCSV();
+      const csvContent = await exportExamResultsToCSV(csvOptions);
+
+      expect(csvContent).toEqual('User ID,Nama Peserta,Kelas,Exam ID,Judul Ujian,Nilai,Waktu Submit,Status Submit\r\n');
+    });
+
+    it('should quote fields with delimiters, quotes and line breaks', async () => {
+      const { users, exams } = await createTestData();
+      await db.update(usersTable)
+        .set({ nama: 'Budi "Bud" Santoso, S.Pd', kelas: 'XII, IPA' })
+        .where(eq(usersTable.id, users[1].id))
+        .execute();
+      await db.update(examsTable)
+        .set({ judul_ujian: 'Ujian\nMatematika' })
+        .where(eq(examsTable.id, exams[0].id))
+        .execute();
+
+      const csvContent = await exportExamResultsToCSV({ ...csvOptions, examId: exams[0].id });
+
+      expect(csvContent).toContain('"Budi ""Bud"" Santoso, S.Pd","XII, IPA"');
+      const rows = parseCSV(csvContent);
+      expect(rows).toHaveLength(3);
+      expect(rows[1].slice(1, 5)).toEqual(['Budi "Bud" Santoso, S.Pd', 'XII, IPA', exams[0].id.toString(), 'Ujian\nMatematika']);
+    });
+
+    it('should use the delimiter and BOM asked for', async () => {
+      const { exams } = await createTestData();
+
+      const csvContent = await exportExamResultsToCSV({ ...csvOptions, examId: exams[0].id, delimiter: ';', bom: true });
+
+      expect(csvContent.startsWith('\uFEFFUser ID;Nama Peserta;Kelas;')).toBe(true);
+      expect(parseCSV(csvContent, ';')[1][1]).toEqual('Peserta Satu');
+    });
+
+    it('should add answer and score columns per question', async () => {
+      const { users } = await createTestData();
+      const exam = await db.insert(examsTable).values({
+        judul_ujian: 'Ujian Kimia',
+        deskripsi: 'Ujian kimia semester 1',
+        tanggal_mulai: new Date('2024-01-17T08:00:00Z'),
+        tanggal_selesai: new Date('2024-01-17T10:00:00Z'),
+        durasi: 60,
+        status: 'aktif'
+      }).returning().execute();
+      const questions = await db.insert(questionsTable)
+        .values([
+          { exam_id: exam[0].id, soal: 'H2O adalah?', pilihan: ['Garam', 'Air', 'Gula'], jawaban_benar: 'B' },
+          { exam_id: exam[0].id, tipe: 'multiple_answer', soal: 'Unsur logam?', pilihan: ['Besi', 'Oksigen', 'Emas'], jawaban_benar: 'A,C' },
+          { exam_id: exam[0].id, tipe: 'essay', soal: 'Jelaskan ikatan ion.', pilihan: [] }
+        ])
+        .returning()
+        .execute();
+      await db.insert(answersTable).values({
+        exam_id: exam[0].id,
+        user_id: users[1].id,
+        jawaban: {
+          [questions[0].id.toString()]: 'B',
+          [questions[1].id.toString()]: ['A'],
+          [questions[2].id.toString()]: 'Serah terima elektron'
+        },
+        nilai: 50,
+        waktu_submit: new Date(),
+        is_submitted: true,
+        pending_grading: true
+      }).execute();
+
+      const rows = parseCSV(await exportExamResultsToCSV({ ...csvOptions, examId: exam[0].id, includeQuestions: true }));
+
+      expect(rows[0].slice(8)).toEqual([
+        'Soal 1 Jawaban', 'Soal 1 Skor',
+        'Soal 2 Jawaban', 'Soal 2 Skor',
+        'Soal 3 Jawaban', 'Soal 3 Skor'
+      ]);
+      expect(rows[1][5]).toEqual('Menunggu penilaian');
+      expect(rows[1].slice(8)).toEqual(['B', '1', 'A', '0.5', 'Serah terima elektron', '']);
+
+      // Decimal commas go with the ; delimiter
+      const semicolonRows = parseCSV(await exportExamResultsToCSV({ ...csvOptions, examId: exam[0].id, includeQuestions: true, delimiter: ';' }), ';');
+      expect(semicolonRows[1].slice(10, 12)).toEqual(['A', '0,5']);
+    });
+
+    it('should keep text that looks like a formula from being run', async () => {
+      const { users, exams } = await createTestData();
+      await db.update(usersTable)
+        .set({ nama: '=HYPERLINK("http://example.com")', kelas: '-XII' })
+        .where(eq(usersTable.id, users[1].id))
+        .execute();
+
+      const rows = parseCSV(await exportExamResultsToCSV({ ...csvOptions, examId: exams[0].id }));
+
+      expect(rows[1].slice(1, 3)).toEqual(['\'=HYPERLINK("http://example.com")', '\'-XII']);
+    });
+
+    it('should export every participant across pages', async () => {
+      const exam = await db.insert(examsTable).values({
+        judul_ujian: 'Ujian Besar',
+        deskripsi: 'Banyak peserta',
+        tanggal_mulai: new Date(),
+        tanggal_selesai: new Date(),
+        durasi: 60,
+        status: 'aktif'
+      }).returning().execute();
+      const users = await db.insert(usersTable)
+        .values(Array.from({ length: 501 }, (_, i) => ({
+          nama: `Peserta ${i}`,
+          email: `peserta${i}@test.com`,
+          password: 'password123',
+          role: 'peserta' as const
+        })))
+        .returning()
+        .execute();
+      await db.insert(answersTable)
+        .values(users.map(user => ({
+          exam_id: exam[0].id,
+          user_id: user.id,
+          jawaban: {},
+          nilai: 70,
+          waktu_submit: new Date(),
+          is_submitted: true
+        })))
+        .execute();
+
+      const rows = parseCSV(await exportExamResultsToCSV(csvOptions));
+
+      expect(rows).toHaveLength(502);
+      expect(rows.slice(1).map(row => Number(row[0]))).toEqual(users.map(user => user.id));
+    });
+
+    it('should only add question columns for one exam', async () => {
+      await expect(exportExamResultsToCSV({ ...csvOptions, includeQuestions: true })).rejects.toThrow(/need an exam/i);
+    });
+
+    it('should stream one record per chunk', async () => {
+      const { exams } = await createTestData();
+
+      const chunks: string[] = [];
+      for await (const chunk of streamExamResultsCSV({ ...csvOptions, examId: exams[0].id })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks.join('')).toEqual(await exportExamResultsToCSV({ ...csvOptions, examId: exams[0].id }));
+    });
+  });
+
+  describe('exportExamResultsToXLSX', () => {
+    it('should export the same rows as a workbook', async () => {
+      const { exams } = await createTestData();
+
+      const content = await exportExamResultsToXLSX({ examId: exams[0].id, includeQuestions: false, delimiter: ',', bom: false });
+
+      const workbook = new ExcelJS.Workbook();
+      const bytes = Buffer.from(content, 'base64');
+      await workbook.xlsx.load(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+      const sheet = workbook.worksheets[0];
 
-      expect(csvContent).toEqual('User ID,Nama Peserta,Kelas,Exam ID,Judul Ujian,Nilai,Waktu Submit,Status Submit');
+      expect(sheet.rowCount).toEqual(3);
+      expect(sheet.getRow(1).getCell(2).value).toEqual('Nama Peserta');
+      expect(sheet.getRow(2).getCell(2).value).toEqual('Peserta Satu');
+      expect(sheet.getRow(2).getCell(6).value).toEqual(85);
+      expect(sheet.getRow(2).getCell(7).value).toBeInstanceOf(Date);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { readIntEnv } from '../helpers/env';
+
+describe('readIntEnv', () => {
+  afterEach(() => {
+    delete process.env['TEST_INT_SETTING'];
+  });
+
+  it('should read a configured integer', () => {
+    process.env['TEST_INT_SETTING'] = '45';
+
+    expect(readIntEnv('TEST_INT_SETTING', 10)).toEqual(45);
+  });
+
+  it('should fall back when the setting is missing or malformed', () => {
+    expect(readIntEnv('TEST_INT_SETTING', 10)).toEqual(10);
+
+    for (const value of ['', 'abc', '30m', '1.5']) {
+      process.env['TEST_INT_SETTING'] = value;
+      expect(readIntEnv('TEST_INT_SETTING', 10)).toEqual(10);
+    }
+  });
+
+  it('should fall back below the minimum', () => {
+    process.env['TEST_INT_SETTING'] = '0';
+
+    expect(readIntEnv('TEST_INT_SETTING', 10)).toEqual(10);
+    expect(readIntEnv('TEST_INT_SETTING', 10, 0)).toEqual(0);
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable, examsTable, questionsTable, examAssignmentsTable, answersTable } from '../db/schema';
+import { type UserProfile } from '../schema';
+import { createAnswer, submitExam } from '../handlers/answers';
+import { getUngradedEssayResponses, gradeEssay, getEssayGrades } from '../handlers/essay-grading';
+import { getExamResults } from '../handlers/dashboard';
+
+const testExam = {
+  judul_ujian: 'Ujian Esai',
+  deskripsi: 'Ujian dengan soal esai',
+  tanggal_mulai: new Date(),
+  tanggal_selesai: new Date(Date.now() + 3600000), // 1 hour later
+  durasi: 60,
+  status: 'aktif' as const
+};
+
+describe('essay grading handlers', () => {
+  let adminId: number;
+  let participant: UserProfile;
+  let examId: number;
+  let choiceId: number;
+  let essayId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { nama: 'Guru', email: 'guru@test.com', password: 'hashed', role: 'admin' },
+        { nama: 'Siswa', email: 'siswa@test.com', password: 'hashed', role: 'peserta' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    const { password, ...profile } = users[1];
+    participant = profile;
+
+    const exam = await db.insert(examsTable).values(testExam).returning().execute();
+    examId = exam[0].id;
+    await db.insert(examAssignmentsTable).values({ exam_id: examId, user_id: participant.id }).execute();
+
+    const questions = await db.insert(questionsTable)
+      .values([
+        { exam_id: examId, soal: '2 + 2 = ?', pilihan: ['3', '4'], jawaban_benar: 'B' },
+        { exam_id: examId, tipe: 'essay', soal: 'Jelaskan fotosintesis.', pilihan: [] }
+      ])
+      .returning()
+      .execute();
+    choiceId = questions[0].id;
+    essayId = questions[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const submitWithEssay = async (essay: string) => {
+    const attempt = await createAnswer({ exam_id: examId, jawaban: {} }, participant.id);
+    return submitExam({
+      id: attempt.id,
+      jawaban: { [choiceId.toString()]: 'B', [essayId.toString()]: essay }
+    }, participant.id);
+  };
+
+  it('should leave an attempt with an answered essay pending', async () => {
+    const submitted = await submitWithEssay('Tumbuhan mengubah cahaya menjadi energi.');
+
+    expect(submitted.pending_grading).toBe(true);
+    expect(submitted.nilai).toEqual(50);
+
+    const results = await getExamResults({ examId });
+    expect(results[0].pending_grading).toBe(true);
+    expect(results[0].nilai).toBeNull();
+  });
+
+  it('should not wait for a grader on a blank essay', async () => {
+    const submitted = await submitWithEssay('   ');
+
+    expect(submitted.pending_grading).toBe(false);
+    expect(submitted.nilai).toEqual(50);
+    expect(await getUngradedEssayResponses(examId)).toHaveLength(0);
+  });
+
+  it('should list ungraded responses and finish the score once graded', async () => {
+    const submitted = await submitWithEssay('Tumbuhan mengubah cahaya menjadi energi.');
+
+    const ungraded = await getUngradedEssayResponses(examId);
+    expect(ungraded).toHaveLength(1);
+    expect(ungraded[0]).toMatchObject({
+      answerId: submitted.id,
+      userNama: 'Siswa',
+      questionId: essayId,
+      jawaban: 'Tumbuhan mengubah cahaya menjadi energi.',
+      maxPoin: 1
+    });
+
+    const grade = await gradeEssay({ answerId: submitted.id, questionId: essayId, poin: 0.5, feedback: 'Kurang lengkap' }, adminId);
+    expect(grade.poin).toEqual(0.5);
+    expect(grade.graded_by).toEqual(adminId);
+
+    expect(await getUngradedEssayResponses(examId)).toHaveLength(0);
+    const results = await getExamResults({ examId });
+    expect(results[0].pending_grading).toBe(false);
+    expect(results[0].nilai).toEqual(75);
+  });
+
+  it('should not list responses to a voided essay', async () => {
+    await submitWithEssay('Tumbuhan mengubah cahaya menjadi energi.');
+
+    await db.update(questionsTable)
+      .set({ dibatalkan: true })
+      .where(eq(questionsTable.id, essayId))
+      .execute();
+
+    expect(await getUngradedEssayResponses(examId)).toHaveLength(0);
+  });
+
+  it('should rescore when a grade is corrected', async () => {
+    const submitted = await submitWithEssay('Jawaban');
+    await gradeEssay({ answerId: submitted.id, questionId: essayId, poin: 0 }, adminId);
+
+    await gradeEssay({ answerId: submitted.id, questionId: essayId, poin: 1, feedback: 'Bagus' }, adminId);
+
+    const grades = await getEssayGrades(submitted.id, participant);
+    expect(grades).toHaveLength(1);
+    expect(grades[0].feedback).toEqual('Bagus');
+    expect((await getExamResults({ examId }))[0].nilai).toEqual(100);
+  });
+
+  it('should count both grades when two essays are graded at the same time', async () => {
+    const second = await db.insert(questionsTable)
+      .values({ exam_id: examId, tipe: 'essay', soal: 'Jelaskan respirasi.', pilihan: [] })
+      .returning()
+      .execute();
+    const attempt = await createAnswer({ exam_id: examId, jawaban: {} }, participant.id);
+    const submitted = await submitExam({
+      id: attempt.id,
+      jawaban: { [choiceId.toString()]: 'B', [essayId.toString()]: 'Jawaban', [second[0].id.toString()]: 'Jawaban' }
+    }, participant.id);
+
+    await Promise.all([
+      gradeEssay({ answerId: submitted.id, questionId: essayId, poin: 1 }, adminId),
+      gradeEssay({ answerId: submitted.id, questionId: second[0].id, poin: 1 }, adminId)
+    ]);
+
+    const stored = await db.select().from(answersTable).where(eq(answersTable.id, submitted.id)).execute();
+    expect(stored[0].pending_grading).toBe(false);
+    expect(stored[0].nilai).toEqual(100);
+  });
+
+  it('should reject invalid grades', async () => {
+    const attempt = await createAnswer({ exam_id: examId, jawaban: {} }, participant.id);
+    await expect(gradeEssay({ answerId: attempt.id, questionId: essayId, poin: 1 }, adminId))
+      .rejects.toThrow(/only submitted attempts/i);
+
+    const submitted = await submitExam({ id: attempt.id, jawaban: { [essayId.toString()]: 'Jawaban' } }, participant.id);
+    await expect(gradeEssay({ answerId: submitted.id, questionId: choiceId, poin: 1 }, adminId))
+      .rejects.toThrow(/not an essay question/i);
+    await expect(gradeEssay({ answerId: submitted.id, questionId: essayId, poin: 2 }, adminId))
+      .rejects.toThrow(/cannot exceed/i);
+  });
+
+  it('should only show grades to the admin and the attempt\'s owner', async () => {
+    const submitted = await submitWithEssay('Jawaban');
+    const other = await db.insert(usersTable)
+      .values({ nama: 'Lain', email: 'lain@test.com', password: 'hashed', role: 'peserta' })
+      .returning()
+      .execute();
+    const { password, ...otherProfile } = other[0];
+
+    await expect(getEssayGrades(submitted.id, otherProfile)).rejects.toThrow(/another user/i);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, examsTable, classesTable, examAssignmentsTable } from '../db/schema';
+import {
+  getExamAssignments,
+  setExamAssignments,
+  getExamParticipants,
+  isExamAssignedToUser
+} from '../handlers/exam-assignments';
+import { getExamsForParticipant } from '../handlers/exams';
+import { eq } from 'drizzle-orm';
+
+const testExam = {
+  judul_ujian: 'Ujian Matematika',
+  deskripsi: 'Ujian akhir semester',
+  tanggal_mulai: new Date(Date.now() - 3600000),
+  tanggal_selesai: new Date(Date.now() + 3600000),
+  durasi: 60,
+  status: 'aktif' as const
+};
+
+const createTestUser = async (email: string, classId: number | null, role: 'admin' | 'peserta' = 'peserta') => {
+  const result = await db.insert(usersTable)
+    .values({
+      nama: email.split('@')[0],
+      email,
+      password: 'hashed',
+      role,
+      class_id: classId
+    })
+    .returning()
+    .execute();
+  return result[0].id;
+};
+
+describe('exam assignment handlers', () => {
+  let examId: number;
+  let classA: number;
+  let classB: number;
+  let andi: number;
+  let rina: number;
+  let budi: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const exam = await db.insert(examsTable).values(testExam).returning().execute();
+    examId = exam[0].id;
+
+    const classes = await db.insert(classesTable)
+      .values([{ nama: 'XII IPA 1' }, { nama: 'XII IPA 2' }])
+      .returning()
+      .execute();
+    classA = classes[0].id;
+    classB = classes[1].id;
+
+    andi = await createTestUser('andi@school.id', classA);
+    rina = await createTestUser('rina@school.id', classA);
+    budi = await createTestUser('budi@school.id', classB);
+  });
+
+  afterEach(resetDB);
+
+  describe('setExamAssignments', () => {
+    it('should store classes, users and exclusions', async () => {
+      const result = await setExamAssignments({
+        examId,
+        classIds: [classA],
+        userIds: [budi],
+        excludedUserIds: [rina]
+      });
+
+      expect(result).toEqual({ examId, classIds: [classA], userIds: [budi], excludedUserIds: [rina] });
+      expect(await getExamAssignments(examId)).toEqual(result);
+    });
+
+    it('should replace earlier assignments', async () => {
+      await setExamAssignments({ examId, classIds: [classA], userIds: [budi], excludedUserIds: [] });
+
+      const result = await setExamAssignments({ examId, classIds: [classB], userIds: [], excludedUserIds: [] });
+
+      expect(result).toEqual({ examId, classIds: [classB], userIds: [], excludedUserIds: [] });
+      const rows = await db.select().from(examAssignmentsTable).execute();
+      expect(rows).toHaveLength(1);
+    });
+
+    it('should reject a user that is both assigned and excluded', async () => {
+      await expect(setExamAssignments({ examId, classIds: [], userIds: [andi], excludedUserIds: [andi] }))
+        .rejects.toThrow(/both assigned and excluded/i);
+    });
+
+    it('should reject unknown exams, classes and users', async () => {
+      await expect(setExamAssignments({ examId: 999, classIds: [], userIds: [], excludedUserIds: [] }))
+        .rejects.toThrow(/exam not found/i);
+      await expect(setExamAssignments({ examId, classIds: [999], userIds: [], excludedUserIds: [] }))
+        .rejects.toThrow(/classes were not found/i);
+      await expect(setExamAssignments({ examId, classIds: [], userIds: [999], excludedUserIds: [] }))
+        .rejects.toThrow(/not participants/i);
+    });
+
+    it('should reject admins', async () => {
+      const admin = await createTestUser('admin@school.id', null, 'admin');
+
+      await expect(setExamAssignments({ examId, classIds: [], userIds: [admin], excludedUserIds: [] }))
+        .rejects.toThrow(/not participants/i);
+    });
+  });
+
+  describe('assignment resolution', () => {
+    beforeEach(async () => {
+      await setExamAssignments({ examId, classIds: [classA], userIds: [budi], excludedUserIds: [rina] });
+    });
+
+    it('should assign through the class and individually', async () => {
+      expect(await isExamAssignedToUser(examId, andi)).toBe(true);
+      expect(await isExamAssignedToUser(examId, budi)).toBe(true);
+    });
+
+    it('should honour exclusions over the class assignment', async () => {
+      expect(await isExamAssignedToUser(examId, rina)).toBe(false);
+      expect(await getExamsForParticipant(rina)).toEqual([]);
+    });
+
+    it('should not assign classmates of an individually assigned user', async () => {
+      const sari = await createTestUser('sari@school.id', classB);
+
+      expect(await isExamAssignedToUser(examId, sari)).toBe(false);
+    });
+
+    it('should list the resolved participants', async () => {
+      const result = await getExamParticipants(examId);
+
+      expect(result.map(user => user.id)).toEqual([andi, budi]);
+      expect(result[0].kelas).toEqual('XII IPA 1');
+      expect('password' in result[0]).toBe(false);
+    });
+
+    it('should follow participants that move class', async () => {
+      const sari = await createTestUser('sari@school.id', classB);
+      expect(await isExamAssignedToUser(examId, sari)).toBe(false);
+
+      await db.update(usersTable).set({ class_id: classA }).where(eq(usersTable.id, sari)).execute();
+      expect(await isExamAssignedToUser(examId, sari)).toBe(true);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { examsTable, usersTable, questionsTable, answersTable } from '../db/schema';
+import { examsTable, usersTable, questionsTable, answersTable, examAssignmentsTable } from '../db/schema';
 import { type CreateExamInput, type UpdateExamInput } from '../schema';
 import { 
   createExam, 
@@ -335,8 +335,14 @@ describe('Exam Handlers', () => {
         status: 'non-aktif'
       };
 
-      await createExam(activeExamInput);
-      await createExam(inactiveExamInput);
+      const activeExam = await createExam(activeExamInput);
+      const inactiveExam = await createExam(inactiveExamInput);
+      await db.insert(examAssignmentsTable)
+        .values([
+          { exam_id: activeExam.id, user_id: user.id },
+          { exam_id: inactiveExam.id, user_id: user.id }
+        ])
+        .execute();
 
       const result = await getExamsForParticipant(user.id);
 
@@ -344,6 +350,20 @@ describe('Exam Handlers', () => {
       expect(result[0].status).toEqual('aktif');
     });
 
+    it('should not return active exams assigned to someone else', async () => {
+      const user = await createTestUser();
+      const now = new Date();
+
+      await createExam({
+        ...testExamInput,
+        tanggal_mulai: new Date(now.getTime() - 30 * 60 * 1000),
+        tanggal_selesai: new Date(now.getTime() + 30 * 60 * 1000)
+      });
+
+      const result = await getExamsForParticipant(user.id);
+      expect(result).toEqual([]);
+    });
+
     it('should return empty array when no active exams available', async () => {
       const user = await createTestUser();
 
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'bun:test';
+import { gradeAnswer } from '../helpers/grading';
+
+const question = (overrides: Partial<Parameters<typeof gradeAnswer>[0]>): Parameters<typeof gradeAnswer>[0] => ({
+  tipe: 'multiple_choice',
+  pilihan: ['a', 'b', 'c', 'd'],
+  jawaban_benar: 'C',
+  kunci_jawaban: null,
+  ...overrides
+});
+
+describe('gradeAnswer', () => {
+  it('should grade multiple choice and true/false by letter', () => {
+    expect(gradeAnswer(question({}), 'C', undefined)).toEqual(1);
+    expect(gradeAnswer(question({}), 'c', undefined)).toEqual(1);
+    expect(gradeAnswer(question({}), 'A', [2, 0, 1, 3])).toEqual(1);
+    expect(gradeAnswer(question({}), 'B', undefined)).toEqual(0);
+    expect(gradeAnswer(question({}), undefined, undefined)).toEqual(0);
+
+    const trueFalse = question({ tipe: 'true_false', pilihan: ['Benar', 'Salah'], jawaban_benar: 'B' });
+    expect(gradeAnswer(trueFalse, 'B', undefined)).toEqual(1);
+    expect(gradeAnswer(trueFalse, 'A', undefined)).toEqual(0);
+  });
+
+  it('should accept alternative answers on multiple choice', () => {
+    const disputed = question({ jawaban_alternatif: ['A'] });
+
+    expect(gradeAnswer(disputed, 'C', undefined)).toEqual(1);
+    expect(gradeAnswer(disputed, 'A', undefined)).toEqual(1);
+    expect(gradeAnswer(disputed, 'B', [0, 2, 1, 3])).toEqual(1);
+    expect(gradeAnswer(disputed, 'D', undefined)).toEqual(0);
+  });
+
+  it('should give partial credit on multiple answer questions', () => {
+    const multi = question({ tipe: 'multiple_answer', jawaban_benar: 'A,C' });
+
+    expect(gradeAnswer(multi, ['A', 'C'], undefined)).toEqual(1);
+    expect(gradeAnswer(multi, ['C'], undefined)).toEqual(0.5);
+    expect(gradeAnswer(multi, ['A', 'C', 'D'], undefined)).toEqual(0.5);
+    expect(gradeAnswer(multi, ['B', 'D'], undefined)).toEqual(0);
+    expect(gradeAnswer(multi, 'A,C', undefined)).toEqual(1);
+    expect(gradeAnswer(multi, ['B', 'D'], [1, 0, 3, 2])).toEqual(1);
+  });
+
+  it('should accept short answers ignoring case and whitespace', () => {
+    const short = question({
+      tipe: 'short_answer',
+      pilihan: [],
+      jawaban_benar: null,
+      kunci_jawaban: { accepted: ['Jakarta', 'DKI  Jakarta'], patterns: [] }
+    });
+
+    expect(gradeAnswer(short, '  jakarta ', undefined)).toEqual(1);
+    expect(gradeAnswer(short, 'dki jakarta', undefined)).toEqual(1);
+    expect(gradeAnswer(short, 'Bandung', undefined)).toEqual(0);
+    expect(gradeAnswer(short, '', undefined)).toEqual(0);
+  });
+
+  it('should match short answer patterns against the whole answer', () => {
+    const short = question({
+      tipe: 'short_answer',
+      pilihan: [],
+      jawaban_benar: null,
+      kunci_jawaban: { accepted: [], patterns: ['fotosintes[ia]s'] }
+    });
+
+    expect(gradeAnswer(short, 'Fotosintesis', undefined)).toEqual(1);
+    expect(gradeAnswer(short, 'fotosintesas', undefined)).toEqual(1);
+    expect(gradeAnswer(short, 'bukan fotosintesis', undefined)).toEqual(0);
+  });
+
+  it('should grade numeric answers within the tolerance', () => {
+    const numeric = question({
+      tipe: 'numeric',
+      pilihan: [],
+      jawaban_benar: null,
+      kunci_jawaban: { value: 3.14, tolerance: 0.01 }
+    });
+
+    expect(gradeAnswer(numeric, '3.14', undefined)).toEqual(1);
+    expect(gradeAnswer(numeric, '3,15', undefined)).toEqual(1);
+    expect(gradeAnswer(numeric, '3.2', undefined)).toEqual(0);
+    expect(gradeAnswer(numeric, 'pi', undefined)).toEqual(0);
+    expect(gradeAnswer(numeric, ' ', undefined)).toEqual(0);
+  });
+
+  it('should give a share per correct pair on matching questions', () => {
+    const matching = question({ tipe: 'matching', pilihan: ['x', 'y', 'z'], jawaban_benar: null });
+    // The right side was shown as [2, 0, 1]: displayed A is stored C, B is A, C is B
+    const order = [2, 0, 1];
+
+    expect(gradeAnswer(matching, ['B', 'C', 'A'], order)).toEqual(1);
+    expect(gradeAnswer(matching, ['B', 'A', 'C'], order)).toBeCloseTo(1 / 3);
+    expect(gradeAnswer(matching, ['B'], order)).toBeCloseTo(1 / 3);
+  });
+
+  it('should only credit a fully correct order', () => {
+    const ordering = question({ tipe: 'ordering', pilihan: ['1', '2', '3'], jawaban_benar: null });
+    const order = [1, 2, 0];
+
+    expect(gradeAnswer(ordering, ['C', 'A', 'B'], order)).toEqual(1);
+    expect(gradeAnswer(ordering, ['A', 'B', 'C'], order)).toEqual(0);
+    expect(gradeAnswer(ordering, ['C', 'A'], order)).toEqual(0);
+  });
+});
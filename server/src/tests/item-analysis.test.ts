@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, examsTable, questionsTable, answersTable, essayGradesTable } from '../db/schema';
+import { getItemAnalysis } from '../handlers/item-analysis';
+
+const testExam = {
+  judul_ujian: 'Ujian Analisis',
+  deskripsi: 'Ujian untuk analisis butir soal',
+  tanggal_mulai: new Date('2024-01-01'),
+  tanggal_selesai: new Date('2024-01-02'),
+  durasi: 60,
+  status: 'non-aktif' as const
+};
+
+describe('getItemAnalysis', () => {
+  let examId: number;
+  let userIds: number[];
+  let questionIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([1, 2, 3, 4].map(n => ({ nama: `Siswa ${n}`, email: `siswa${n}@test.com`, password: 'hashed', role: 'peserta' as const })))
+      .returning()
+      .execute();
+    userIds = users.map(user => user.id);
+
+    const exam = await db.insert(examsTable).values(testExam).returning().execute();
+    examId = exam[0].id;
+
+    const questions = await db.insert(questionsTable)
+      .values([
+        { exam_id: examId, soal: 'Soal 1', pilihan: ['a', 'b', 'c'], jawaban_benar: 'A' },
+        { exam_id: examId, soal: 'Soal 2', pilihan: ['a', 'b', 'c'], jawaban_benar: 'B' },
+        { exam_id: examId, soal: 'Soal 3', pilihan: ['a', 'b', 'c'], jawaban_benar: 'C' }
+      ])
+      .returning()
+      .execute();
+    questionIds = questions.map(question => question.id);
+  });
+
+  afterEach(resetDB);
+
+  const submitted = (userId: number, letters: (string | undefined)[], attempt_number = 1) => {
+    const jawaban: Record<string, string> = {};
+    letters.forEach((letter, index) => {
+      if (letter !== undefined) jawaban[questionIds[index].toString()] = letter;
+    });
+    return { exam_id: examId, user_id: userId, attempt_number, jawaban, waktu_submit: new Date(), is_submitted: true };
+  };
+
+  const seedResponses = () => db.insert(answersTable)
+    .values([
+      submitted(userIds[0], ['A', 'B', 'C']),
+      submitted(userIds[1], ['A', 'B', 'A']),
+      submitted(userIds[2], ['A', 'C', 'A']),
+      submitted(userIds[3], ['B', 'C', undefined])
+    ])
+    .returning()
+    .execute();
+
+  it('should compute the item statistics', async () => {
+    await seedResponses();
+
+    const result = await getItemAnalysis(examId);
+
+    expect(result.respondentCount).toEqual(4);
+    expect(result.items.map(item => item.pValue)).toEqual([0.75, 0.5, 0.25]);
+    expect(result.items[0].discriminationIndex).toEqual(1);
+    expect(result.items[0].pointBiserial).toEqual(0.775);
+    expect(result.items[2].unansweredCount).toEqual(1);
+  });
+
+  it('should count how often each option was picked', async () => {
+    await seedResponses();
+
+    const result = await getItemAnalysis(examId);
+
+    expect(result.items[2].distractors).toEqual([
+      { option: 'A', teks: 'a', isCorrect: false, count: 2, proportion: 0.5 },
+      { option: 'B', teks: 'b', isCorrect: false, count: 0, proportion: 0 },
+      { option: 'C', teks: 'c', isCorrect: true, count: 1, proportion: 0.25 }
+    ]);
+  });
+
+  it('should compute KR-20 and Cronbach\'s alpha', async () => {
+    await seedResponses();
+
+    const result = await getItemAnalysis(examId);
+
+    expect(result.kr20).toEqual(0.75);
+    expect(result.cronbachAlpha).toEqual(0.75);
+  });
+
+  it('should only use the latest submitted attempt of each participant', async () => {
+    await db.insert(answersTable)
+      .values([
+        submitted(userIds[0], ['B', 'A', 'A'], 1),
+        submitted(userIds[0], ['A', 'B', 'C'], 2),
+        { ...submitted(userIds[1], ['B', 'A', 'A']), is_submitted: false }
+      ])
+      .execute();
+
+    const result = await getItemAnalysis(examId);
+
+    expect(result.respondentCount).toEqual(1);
+    expect(result.items.map(item => item.pValue)).toEqual([1, 1, 1]);
+    expect(result.items[0].discriminationIndex).toBeNull();
+    expect(result.kr20).toBeNull();
+  });
+
+  it('should leave ungraded essays out and use graded ones as partial credit', async () => {
+    const essay = await db.insert(questionsTable)
+      .values({ exam_id: examId, tipe: 'essay', soal: 'Jelaskan.', pilihan: [], poin: 4 })
+      .returning()
+      .execute();
+    const answers = await db.insert(answersTable)
+      .values([
+        { ...submitted(userIds[0], ['A', 'B', 'C']), jawaban: { [essay[0].id.toString()]: 'Jawaban lengkap' } },
+        { ...submitted(userIds[1], ['A', 'B', 'C']), jawaban: { [essay[0].id.toString()]: 'Jawaban singkat' } }
+      ])
+      .returning()
+      .execute();
+    await db.insert(essayGradesTable)
+      .values({ answer_id: answers[0].id, question_id: essay[0].id, poin: 3 })
+      .execute();
+
+    const result = await getItemAnalysis(examId);
+    const essayItem = result.items.find(item => item.questionId === essay[0].id)!;
+
+    expect(essayItem.responseCount).toEqual(2);
+    expect(essayItem.pValue).toEqual(0.75);
+    expect(essayItem.distractors).toEqual([]);
+    expect(result.kr20).toBeNull();
+  });
+
+  it('should reject an unknown exam', async () => {
+    await expect(getItemAnalysis(999)).rejects.toThrow(/exam not found/i);
+  });
+});
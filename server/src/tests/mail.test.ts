@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { createMailTransportFromEnv, ConsoleMailTransport, FileMailTransport } from '../helpers/mail';
+
+describe('createMailTransportFromEnv', () => {
+  const originalNodeEnv = process.env['NODE_ENV'];
+
+  afterEach(() => {
+    if (originalNodeEnv === undefined) {
+      delete process.env['NODE_ENV'];
+    } else {
+      process.env['NODE_ENV'] = originalNodeEnv;
+    }
+    delete process.env['MAIL_TRANSPORT'];
+  });
+
+  it('should log mail to the console by default', () => {
+    process.env['NODE_ENV'] = 'development';
+
+    expect(createMailTransportFromEnv()).toBeInstanceOf(ConsoleMailTransport);
+  });
+
+  it('should refuse the console transport in production', () => {
+    process.env['NODE_ENV'] = 'production';
+
+    expect(() => createMailTransportFromEnv()).toThrow(/MAIL_TRANSPORT/);
+    process.env['MAIL_TRANSPORT'] = 'console';
+    expect(() => createMailTransportFromEnv()).toThrow(/MAIL_TRANSPORT/);
+  });
+
+  it('should use a configured transport in production', () => {
+    process.env['NODE_ENV'] = 'production';
+    process.env['MAIL_TRANSPORT'] = 'file';
+
+    expect(createMailTransportFromEnv()).toBeInstanceOf(FileMailTransport);
+  });
+});
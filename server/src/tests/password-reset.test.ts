@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { setMailTransport, FileMailTransport, type MailMessage } from '../helpers/mail';
+import { setLoginThrottleStore, MemoryLoginThrottleStore } from '../helpers/login-throttle';
+import { requestPasswordResetInputSchema } from '../schema';
+import { requestPasswordReset, confirmPasswordReset } from '../handlers/password-reset';
+
+const testUser = {
+  nama: 'Reset User',
+  email: 'reset@example.com',
+  password: 'password123',
+  role: 'peserta' as const,
+  kelas: '12A'
+};
+
+// Reset mail is sent in the background; tests wait for it through the transport
+class AwaitableFileMailTransport extends FileMailTransport {
+  private pending: Promise<void>[] = [];
+
+  send(message: MailMessage): Promise<void> {
+    const sending = super.send(message);
+    this.pending.push(sending);
+    return sending;
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+}
+
+describe('password reset handlers', () => {
+  let mailDir: string;
+  let transport: AwaitableFileMailTransport;
+  let userId: number;
+
+  // Returns the token from the most recently written mail file
+  const readLatestToken = async (): Promise<string> => {
+    await transport.flush();
+    const files = (await readdir(mailDir)).sort();
+    const content = await readFile(join(mailDir, files[files.length - 1]), 'utf8');
+    return content.match(/token=([\w-]+)/)![1];
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    mailDir = await mkdtemp(join(tmpdir(), 'mail-'));
+    transport = new AwaitableFileMailTransport(mailDir);
+    setMailTransport(transport);
+    setLoginThrottleStore(new MemoryLoginThrottleStore());
+
+    const result = await db.insert(usersTable)
+      .values({
+        ...testUser,
+        password: await hashPassword(testUser.password),
+        must_change_password: true
+      })
+      .returning()
+      .execute();
+    userId = result[0].id;
+  });
+
+  afterEach(async () => {
+    delete process.env['PASSWORD_RESET_MAX_REQUESTS'];
+    delete process.env['PASSWORD_RESET_MAX_IP_REQUESTS'];
+    await resetDB();
+    await rm(mailDir, { recursive: true, force: true });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should store a hashed token and mail the link', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      await transport.flush();
+
+      const files = await readdir(mailDir);
+      expect(files).toHaveLength(1);
+
+      const content = await readFile(join(mailDir, files[0]), 'utf8');
+      expect(content).toContain(`To: ${testUser.email}`);
+
+      const token = await readLatestToken();
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].user_id).toEqual(userId);
+      expect(tokens[0].token_hash).not.toEqual(token);
+      expect(tokens[0].used_at).toBeNull();
+      expect(tokens[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should find the account whatever the case of the email', async () => {
+      await requestPasswordReset(requestPasswordResetInputSchema.parse({ email: testUser.email.toUpperCase() }));
+      await transport.flush();
+
+      expect(await readdir(mailDir)).toHaveLength(1);
+    });
+
+    it('should succeed silently for unknown emails', async () => {
+      await requestPasswordReset({ email: 'nobody@example.com' });
+      await transport.flush();
+
+      expect(await readdir(mailDir)).toHaveLength(0);
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens).toHaveLength(0);
+    });
+
+    it('should invalidate earlier tokens when a new one is requested', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      const firstToken = await readLatestToken();
+
+      await new Promise(resolve => setTimeout(resolve, 5)); // Distinct mail file names
+      await requestPasswordReset({ email: testUser.email });
+
+      await expect(confirmPasswordReset({ token: firstToken, newPassword: 'newpassword123' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should limit requests per email, known or not', async () => {
+      process.env['PASSWORD_RESET_MAX_REQUESTS'] = '2';
+
+      for (const email of [testUser.email, 'nobody@example.com']) {
+        await requestPasswordReset({ email }, '10.0.0.1');
+        await requestPasswordReset({ email }, '10.0.0.2');
+        await expect(requestPasswordReset({ email: email.toUpperCase() }, '10.0.0.3')).rejects.toThrow(/too many/i);
+      }
+
+      await transport.flush();
+      expect(await readdir(mailDir)).toHaveLength(2);
+    });
+
+    it('should limit requests per client address', async () => {
+      process.env['PASSWORD_RESET_MAX_IP_REQUESTS'] = '2';
+
+      await requestPasswordReset({ email: 'first@example.com' }, '10.0.0.1');
+      await requestPasswordReset({ email: 'second@example.com' }, '10.0.0.1');
+      await expect(requestPasswordReset({ email: testUser.email }, '10.0.0.1')).rejects.toThrow(/too many/i);
+
+      // Other addresses are unaffected
+      await requestPasswordReset({ email: testUser.email }, '10.0.0.2');
+    });
+
+    it('should not wait for the mail to be sent', async () => {
+      let release = () => {};
+      const sent: MailMessage[] = [];
+      setMailTransport({
+        send: message => new Promise(resolve => {
+          release = () => {
+            sent.push(message);
+            resolve();
+          };
+        })
+      });
+
+      await requestPasswordReset({ email: testUser.email });
+      expect(sent).toHaveLength(0);
+
+      release();
+      expect(sent).toHaveLength(1);
+    });
+  });
+
+  describe('confirmPasswordReset', () => {
+    it('should set the new password and clear the forced change flag', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      const token = await readLatestToken();
+
+      await confirmPasswordReset({ token, newPassword: 'newpassword123' });
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      expect(await verifyPassword('newpassword123', users[0].password)).toBe(true);
+      expect(users[0].must_change_password).toBe(false);
+
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens[0].used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a token used twice', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      const token = await readLatestToken();
+
+      await confirmPasswordReset({ token, newPassword: 'newpassword123' });
+
+      await expect(confirmPasswordReset({ token, newPassword: 'another123' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an expired token', async () => {
+      await requestPasswordReset({ email: testUser.email });
+      const token = await readLatestToken();
+
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(confirmPasswordReset({ token, newPassword: 'newpassword123' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an unknown token', async () => {
+      await expect(confirmPasswordReset({ token: 'forged-token', newPassword: 'newpassword123' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should revoke existing sessions', async () => {
+      await db.insert(sessionsTable)
+        .values({
+          user_id: userId,
+          token_hash: 'existing-session',
+          expires_at: new Date(Date.now() + 3600000)
+        })
+        .execute();
+
+      await requestPasswordReset({ email: testUser.email });
+      await confirmPasswordReset({ token: await readLatestToken(), newPassword: 'newpassword123' });
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+  });
+});
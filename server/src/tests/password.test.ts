@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { pbkdf2Sync } from 'crypto';
+import { hashPassword, verifyPassword, needsRehash } from '../helpers/password';
+
+// Builds a hash in the pre-scrypt auth.ts format: <salt>:<pbkdf2-sha512, 10000 iterations>
+function legacyPbkdf2Hash(password: string): string {
+  const salt = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+  return `${salt}:${pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex')}`;
+}
+
+describe('password helpers', () => {
+  afterEach(() => {
+    delete process.env['PASSWORD_HASH_ALGORITHM'];
+    delete process.env['PASSWORD_SCRYPT_COST'];
+    delete process.env['PASSWORD_PBKDF2_ITERATIONS'];
+  });
+
+  describe('hashPassword', () => {
+    it('should hash a password', async () => {
+      const password = 'testpassword123';
+      const hashedPassword = await hashPassword(password);
+
+      expect(hashedPassword).toBeDefined();
+      expect(hashedPassword).not.toEqual(password);
+      expect(hashedPassword.includes(':')).toBe(true); // Should contain salt:hash format
+      expect(hashedPassword.length).toBeGreaterThan(100); // Combined salt and hash should be long
+    });
+
+    it('should generate different hashes for same password', async () => {
+      const password = 'samepassword';
+      const hash1 = await hashPassword(password);
+      const hash2 = await hashPassword(password);
+
+      expect(hash1).not.toEqual(hash2); // Salt makes each hash unique
+    });
+
+    it('should produce consistent hash length', async () => {
+      const password1 = 'short';
+      const password2 = 'verylongpasswordwithmanycharacters';
+      
+      const hash1 = await hashPassword(password1);
+      const hash2 = await hashPassword(password2);
+
+      expect(hash1.length).toEqual(hash2.length); // Fixed salt and key length produce consistent length
+    });
+
+    it('should use scrypt by default', async () => {
+      const hashedPassword = await hashPassword('password123');
+
+      expect(hashedPassword.startsWith('scrypt:16384:8:1:')).toBe(true);
+    });
+
+    it('should use pbkdf2 when configured', async () => {
+      process.env['PASSWORD_HASH_ALGORITHM'] = 'pbkdf2';
+      process.env['PASSWORD_PBKDF2_ITERATIONS'] = '1000';
+
+      const hashedPassword = await hashPassword('password123');
+
+      expect(hashedPassword.startsWith('pbkdf2:sha512:1000:')).toBe(true);
+      expect(await verifyPassword('password123', hashedPassword)).toBe(true);
+      expect(await verifyPassword('wrongpassword', hashedPassword)).toBe(false);
+    });
+  });
+
+  describe('verifyPassword', () => {
+    it('should verify correct password', async () => {
+      const password = 'correctpassword';
+      const hashedPassword = await hashPassword(password);
+
+      const isValid = await verifyPassword(password, hashedPassword);
+      expect(isValid).toBe(true);
+    });
+
+    it('should reject incorrect password', async () => {
+      const correctPassword = 'correctpassword';
+      const incorrectPassword = 'wrongpassword';
+      const hashedPassword = await hashPassword(correctPassword);
+
+      const isValid = await verifyPassword(incorrectPassword, hashedPassword);
+      expect(isValid).toBe(false);
+    });
+
+    it('should reject password against invalid hash format', async () => {
+      const password = 'testpassword';
+      const invalidHash = 'invalidhash';
+
+      const isValid = await verifyPassword(password, invalidHash);
+      expect(isValid).toBe(false);
+    });
+
+    it('should reject password against malformed hash', async () => {
+      const password = 'testpassword';
+      const malformedHash = 'salt:hash:extra';
+
+      const isValid = await verifyPassword(password, malformedHash);
+      expect(isValid).toBe(false);
+    });
+  });
+
+  describe('legacy hashes', () => {
+    it('should verify legacy salt:hash PBKDF2 passwords', async () => {
+      const legacyHash = legacyPbkdf2Hash('password123');
+
+      expect(await verifyPassword('password123', legacyHash)).toBe(true);
+      expect(await verifyPassword('wrongpassword', legacyHash)).toBe(false);
+    });
+
+    it('should verify legacy base64 passwords', async () => {
+      const legacyHash = Buffer.from('password123').toString('base64');
+
+      expect(await verifyPassword('password123', legacyHash)).toBe(true);
+      expect(await verifyPassword('wrongpassword', legacyHash)).toBe(false);
+    });
+  });
+
+  describe('needsRehash', () => {
+    it('should not rehash a hash matching the current configuration', async () => {
+      const hashedPassword = await hashPassword('password123');
+
+      expect(needsRehash(hashedPassword)).toBe(false);
+    });
+
+    it('should rehash legacy formats', () => {
+      expect(needsRehash(legacyPbkdf2Hash('password123'))).toBe(true);
+      expect(needsRehash(Buffer.from('password123').toString('base64'))).toBe(true);
+    });
+
+    it('should rehash when the configured cost increases', async () => {
+      process.env['PASSWORD_SCRYPT_COST'] = '1024';
+      const weakHash = await hashPassword('password123');
+
+      process.env['PASSWORD_SCRYPT_COST'] = '16384';
+      expect(needsRehash(weakHash)).toBe(true);
+    });
+
+    it('should rehash when the configured algorithm changes', async () => {
+      const scryptHash = await hashPassword('password123');
+
+      process.env['PASSWORD_HASH_ALGORITHM'] = 'pbkdf2';
+      expect(needsRehash(scryptHash)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { examsTable, questionsTable } from '../db/schema';
+import { type CreateBankQuestionInput, createBankQuestionInputSchema } from '../schema';
+import {
+  createSubject,
+  getAllSubjects,
+  deleteSubject,
+  createBankQuestion,
+  getBankQuestionById,
+  getBankQuestionVersions,
+  updateBankQuestion,
+  deleteBankQuestion,
+  searchBankQuestions,
+  addBankQuestionsToExam
+} from '../handlers/question-bank';
+import { calculateScore } from '../handlers/answers';
+import { eq } from 'drizzle-orm';
+
+const testExam = {
+  judul_ujian: 'Test Exam',
+  deskripsi: 'Test exam description',
+  tanggal_mulai: new Date('2024-01-01'),
+  tanggal_selesai: new Date('2024-01-02'),
+  durasi: 120,
+  status: 'aktif' as const
+};
+
+const bankQuestion = (subjectId: number, overrides: Partial<Record<string, unknown>> = {}): CreateBankQuestionInput => ({
+  subject_id: subjectId,
+  topik: 'aljabar',
+  kesulitan: 'mudah',
+  tags: ['uts'],
+  soal: 'What is 2 + 2?',
+  pilihan: ['1', '2', '3', '4'],
+  jawaban_benar: 'D',
+  ...overrides
+}) as CreateBankQuestionInput;
+
+describe('question bank handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('subjects', () => {
+    it('should create and list subjects', async () => {
+      await createSubject({ nama: 'Matematika' });
+      await createSubject({ nama: 'Fisika' });
+
+      const subjects = await getAllSubjects();
+
+      expect(subjects.map(subject => subject.nama)).toEqual(['Fisika', 'Matematika']);
+    });
+
+    it('should reject a duplicate name regardless of case', async () => {
+      await createSubject({ nama: 'Matematika' });
+
+      await expect(createSubject({ nama: 'matematika' })).rejects.toThrow(/already exists/i);
+    });
+
+    it('should not delete a subject that still has questions', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      await createBankQuestion(bankQuestion(subject.id));
+
+      await expect(deleteSubject(subject.id)).rejects.toThrow(/still has bank questions/i);
+    });
+  });
+
+  describe('createBankQuestion', () => {
+    it('should create the question at version 1', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+
+      const result = await createBankQuestion(bankQuestion(subject.id));
+
+      expect(result.subject_nama).toEqual('Matematika');
+      expect(result.version).toEqual(1);
+      expect(result.tags).toEqual(['uts']);
+      expect(result.pilihan).toEqual(['1', '2', '3', '4']);
+      expect(await getBankQuestionVersions(result.id)).toHaveLength(1);
+    });
+
+    it('should reject an unknown subject', async () => {
+      await expect(createBankQuestion(bankQuestion(999))).rejects.toThrow(/subject not found/i);
+    });
+
+    it('should store the content of every question type', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+
+      const numeric = await createBankQuestion(bankQuestion(subject.id, {
+        tipe: 'numeric',
+        soal: 'Berapa akar 2?',
+        pilihan: undefined,
+        jawaban_benar: undefined,
+        kunci_jawaban: { value: 1.414, tolerance: 0.01 },
+        poin: 2,
+        poin_salah: 0.5
+      }));
+      const matching = await createBankQuestion(bankQuestion(subject.id, {
+        tipe: 'matching',
+        pilihan: ['Jakarta', 'Tokyo'],
+        jawaban_benar: undefined,
+        pasangan: ['Indonesia', 'Jepang']
+      }));
+
+      expect(numeric.tipe).toEqual('numeric');
+      expect(numeric.pilihan).toEqual([]);
+      expect(numeric.jawaban_benar).toBeNull();
+      expect(numeric.kunci_jawaban).toEqual({ value: 1.414, tolerance: 0.01 });
+      expect(numeric.poin).toEqual(2);
+      expect(numeric.poin_salah).toEqual(0.5);
+      expect(matching.pasangan).toEqual(['Indonesia', 'Jepang']);
+      expect(matching.poin).toEqual(1);
+    });
+
+    it('should validate the content like exam questions', () => {
+      const sixOptions = bankQuestion(1, { pilihan: ['1', '2', '3', '4', '5', '6'], jawaban_benar: 'F' });
+
+      expect(createBankQuestionInputSchema.safeParse(sixOptions).success).toBe(true);
+      expect(createBankQuestionInputSchema.safeParse({ ...sixOptions, jawaban_benar: 'G' }).success).toBe(false);
+    });
+  });
+
+  describe('updateBankQuestion', () => {
+    it('should add a version when the content changes', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+
+      const result = await updateBankQuestion({ id: created.id, soal: 'What is 3 + 1?', jawaban_benar: 'D' });
+
+      expect(result.version).toEqual(2);
+      expect(result.soal).toEqual('What is 3 + 1?');
+
+      const versions = await getBankQuestionVersions(created.id);
+      expect(versions.map(version => version.version)).toEqual([2, 1]);
+      expect(versions[1].soal).toEqual('What is 2 + 2?');
+    });
+
+    it('should update metadata in place', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+
+      const result = await updateBankQuestion({ id: created.id, tags: ['uas'], kesulitan: 'sulit', soal: created.soal });
+
+      expect(result.version).toEqual(1);
+      expect(result.tags).toEqual(['uas']);
+      expect(result.kesulitan).toEqual('sulit');
+      expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(created.updated_at.getTime());
+    });
+
+    it('should add a version when the points or alternatives change', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+
+      const result = await updateBankQuestion({ id: created.id, poin: 3, jawaban_alternatif: ['C'] });
+
+      expect(result.version).toEqual(2);
+      expect(result.poin).toEqual(3);
+      expect(result.jawaban_alternatif).toEqual(['C']);
+      const versions = await getBankQuestionVersions(created.id);
+      expect(versions[1].poin).toEqual(1);
+      expect(versions[1].jawaban_alternatif).toBeNull();
+    });
+
+    it('should validate the merged content', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+
+      await expect(updateBankQuestion({ id: created.id, jawaban_benar: 'F' })).rejects.toThrow(/invalid question/i);
+      await expect(updateBankQuestion({ id: created.id, tipe: 'essay', jawaban_alternatif: ['A'] }))
+        .rejects.toThrow(/alternative answers/i);
+    });
+
+    it('should reject a missing question', async () => {
+      await expect(updateBankQuestion({ id: 999, soal: 'x' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('searchBankQuestions', () => {
+    it('should combine the filters', async () => {
+      const math = await createSubject({ nama: 'Matematika' });
+      const physics = await createSubject({ nama: 'Fisika' });
+      const target = await createBankQuestion(bankQuestion(math.id, { tags: ['uts', 'hots'] }));
+      await createBankQuestion(bankQuestion(math.id, { kesulitan: 'sulit', tags: ['hots'] }));
+      await createBankQuestion(bankQuestion(math.id, { soal: 'Solve x + 1 = 3' }));
+      await createBankQuestion(bankQuestion(physics.id, { tags: ['hots'] }));
+
+      const result = await searchBankQuestions({
+        subjectId: math.id,
+        kesulitan: 'mudah',
+        tag: 'hots',
+        query: '2 + 2',
+        limit: 50
+      });
+
+      expect(result.map(question => question.id)).toEqual([target.id]);
+    });
+
+    it('should match the text of the current version only', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+      await updateBankQuestion({ id: created.id, soal: 'Hitung 3 + 1' });
+
+      expect(await searchBankQuestions({ query: '2 + 2', limit: 50 })).toHaveLength(0);
+      expect(await searchBankQuestions({ query: 'hitung', limit: 50 })).toHaveLength(1);
+    });
+
+    it('should treat wildcards in the query literally', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      await createBankQuestion(bankQuestion(subject.id));
+
+      expect(await searchBankQuestions({ query: '%', limit: 50 })).toHaveLength(0);
+    });
+  });
+
+  describe('addBankQuestionsToExam', () => {
+    it('should copy the current versions into the exam', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const first = await createBankQuestion(bankQuestion(subject.id));
+      const second = await createBankQuestion(bankQuestion(subject.id, { soal: 'What is 1 + 1?', jawaban_benar: 'B' }));
+      const exam = await db.insert(examsTable).values(testExam).returning().execute();
+
+      const result = await addBankQuestionsToExam({ examId: exam[0].id, bankQuestionIds: [second.id, first.id] });
+
+      expect(result.map(question => question.soal)).toEqual(['What is 1 + 1?', 'What is 2 + 2?']);
+      expect(result[0].topik).toEqual('aljabar');
+      expect(result[0].bank_version_id).not.toBeNull();
+    });
+
+    it('should copy the type-specific content and points', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id, {
+        tipe: 'short_answer',
+        pilihan: undefined,
+        jawaban_benar: undefined,
+        kunci_jawaban: { accepted: ['empat'], patterns: [] },
+        poin: 4,
+        poin_salah: 1
+      }));
+      const multipleChoice = await createBankQuestion(bankQuestion(subject.id));
+      await updateBankQuestion({ id: multipleChoice.id, jawaban_alternatif: ['C'] });
+      const exam = await db.insert(examsTable).values(testExam).returning().execute();
+
+      const [shortAnswer, copy] = await addBankQuestionsToExam({ examId: exam[0].id, bankQuestionIds: [created.id, multipleChoice.id] });
+
+      expect(shortAnswer.tipe).toEqual('short_answer');
+      expect(shortAnswer.kunci_jawaban).toEqual(created.kunci_jawaban);
+      expect(shortAnswer.poin).toEqual(4);
+      expect(shortAnswer.poin_salah).toEqual(1);
+      expect(copy.jawaban_alternatif).toEqual(['C']);
+    });
+
+    it('should keep the exam and its scores when the bank question changes', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+      const exam = await db.insert(examsTable).values(testExam).returning().execute();
+      const [copy] = await addBankQuestionsToExam({ examId: exam[0].id, bankQuestionIds: [created.id] });
+
+      await updateBankQuestion({ id: created.id, pilihan: ['4', '3', '2', '1'], jawaban_benar: 'A' });
+
+      const stored = await db.select().from(questionsTable).where(eq(questionsTable.id, copy.id)).execute();
+      expect(stored[0].jawaban_benar).toEqual('D');
+      expect(stored[0].pilihan).toEqual(['1', '2', '3', '4']);
+      expect(await calculateScore(exam[0].id, { [copy.id.toString()]: 'D' })).toEqual(100);
+    });
+
+    it('should keep exam copies when the bank question is deleted', async () => {
+      const subject = await createSubject({ nama: 'Matematika' });
+      const created = await createBankQuestion(bankQuestion(subject.id));
+      const exam = await db.insert(examsTable).values(testExam).returning().execute();
+      const [copy] = await addBankQuestionsToExam({ examId: exam[0].id, bankQuestionIds: [created.id] });
+
+      await deleteBankQuestion(created.id);
+
+      const stored = await db.select().from(questionsTable).where(eq(questionsTable.id, copy.id)).execute();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].bank_version_id).toBeNull();
+      expect(await getBankQuestionById(created.id)).toBeNull();
+    });
+
+    it('should reject unknown bank questions', async () => {
+      const exam = await db.insert(examsTable).values(testExam).returning().execute();
+
+      await expect(addBankQuestionsToExam({ examId: exam[0].id, bankQuestionIds: [999] }))
+        .rejects.toThrow(/some bank questions were not found/i);
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, examsTable, questionsTable, answersTable } from '../db/schema';
-import { type CreateQuestionInput, type UpdateQuestionInput, type GetQuestionsByExamInput } from '../schema';
+import { type CreateQuestionInput, type UpdateQuestionInput, type GetQuestionsByExamInput, createQuestionInputSchema } from '../schema';
 import { 
   createQuestion, 
   getQuestionsByExamId, 
@@ -114,6 +114,76 @@ describe('Questions Handler', () => {
     });
   });
 
+  describe('question types', () => {
+    it('should default to multiple choice and accept 2 to 8 options', () => {
+      const parsed = createQuestionInputSchema.parse({ ...testQuestion, pilihan: ['Ya', 'Tidak'], jawaban_benar: 'B' });
+
+      expect(parsed.tipe).toBeUndefined();
+      expect(createQuestionInputSchema.safeParse({ ...testQuestion, pilihan: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'], jawaban_benar: 'H' }).success).toBe(true);
+      expect(createQuestionInputSchema.safeParse({ ...testQuestion, pilihan: ['a'], jawaban_benar: 'A' }).success).toBe(false);
+      expect(createQuestionInputSchema.safeParse({ ...testQuestion, pilihan: ['a', 'b'], jawaban_benar: 'C' }).success).toBe(false);
+    });
+
+    it('should validate the answer key of each type', () => {
+      const base = { exam_id: 1, soal: 'Soal' };
+
+      expect(createQuestionInputSchema.safeParse({ ...base, tipe: 'multiple_answer', pilihan: ['a', 'b', 'c'], jawaban_benar: 'A,C' }).success).toBe(true);
+      expect(createQuestionInputSchema.safeParse({ ...base, tipe: 'multiple_answer', pilihan: ['a', 'b', 'c'], jawaban_benar: 'A,A' }).success).toBe(false);
+      expect(createQuestionInputSchema.safeParse({ ...base, tipe: 'short_answer', kunci_jawaban: { accepted: [] } }).success).toBe(false);
+      expect(createQuestionInputSchema.safeParse({ ...base, tipe: 'short_answer', kunci_jawaban: { patterns: ['(unclosed'] } }).success).toBe(false);
+      expect(createQuestionInputSchema.safeParse({ ...base, tipe: 'numeric', kunci_jawaban: { value: 9.8 } }).success).toBe(true);
+      expect(createQuestionInputSchema.safeParse({ ...base, tipe: 'matching', pilihan: ['a', 'b'], pasangan: ['1', '2', '3'] }).success).toBe(false);
+
+      const trueFalse = createQuestionInputSchema.parse({ ...base, tipe: 'true_false', jawaban_benar: 'A' });
+      expect(trueFalse).toMatchObject({ pilihan: ['Benar', 'Salah'] });
+    });
+
+    it('should store only the columns a type uses', async () => {
+      const examResult = await db.insert(examsTable)
+        .values(testExam)
+        .returning()
+        .execute();
+
+      const numeric = await createQuestion({
+        exam_id: examResult[0].id,
+        soal: 'Percepatan gravitasi (m/s²)?',
+        tipe: 'numeric',
+        kunci_jawaban: { value: 9.8, tolerance: 0.1 }
+      });
+      const matching = await createQuestion({
+        exam_id: examResult[0].id,
+        soal: 'Pasangkan ibu kota',
+        tipe: 'matching',
+        pilihan: ['Indonesia', 'Jepang'],
+        pasangan: ['Jakarta', 'Tokyo']
+      });
+
+      expect(numeric.tipe).toEqual('numeric');
+      expect(numeric.pilihan).toEqual([]);
+      expect(numeric.jawaban_benar).toBeNull();
+      expect(numeric.kunci_jawaban).toEqual({ value: 9.8, tolerance: 0.1 });
+      expect(matching.pasangan).toEqual(['Jakarta', 'Tokyo']);
+      expect(matching.kunci_jawaban).toBeNull();
+    });
+
+    it('should validate the merged question on update', async () => {
+      const examResult = await db.insert(examsTable)
+        .values(testExam)
+        .returning()
+        .execute();
+      const question = await createQuestion({ ...testQuestion, exam_id: examResult[0].id });
+
+      await expect(updateQuestion({ id: question.id, tipe: 'matching' })).rejects.toThrow(/invalid question/i);
+      await expect(updateQuestion({ id: question.id, pilihan: ['1', '2'] })).rejects.toThrow(/does not exist/i);
+
+      const result = await updateQuestion({ id: question.id, tipe: 'short_answer', kunci_jawaban: { accepted: ['4', 'empat'], patterns: [] } });
+
+      expect(result.tipe).toEqual('short_answer');
+      expect(result.pilihan).toEqual([]);
+      expect(result.jawaban_benar).toBeNull();
+    });
+  });
+
   describe('getQuestionsByExamId', () => {
     it('should return all questions for an exam', async () => {
       // Create prerequisite exam
@@ -145,6 +215,65 @@ describe('Questions Handler', () => {
       expect(questions[1].jawaban_benar).toEqual('B');
     });
 
+    it('should only return the questions drawn for the attempt', async () => {
+      const examResult = await db.insert(examsTable)
+        .values(testExam)
+        .returning()
+        .execute();
+      const userResult = await db.insert(usersTable)
+        .values(testUser)
+        .returning()
+        .execute();
+
+      const drawn = await createQuestion({ ...testQuestion, exam_id: examResult[0].id });
+      await createQuestion({ ...testQuestion, soal: 'What is 3 + 3?', exam_id: examResult[0].id });
+
+      await db.insert(answersTable)
+        .values({
+          exam_id: examResult[0].id,
+          user_id: userResult[0].id,
+          jawaban: {},
+          waktu_submit: new Date(),
+          question_order: [drawn.id],
+          option_order: {}
+        })
+        .execute();
+
+      const questions = await getQuestionsForParticipant(examResult[0].id, userResult[0].id);
+
+      expect(questions.map(question => question.id)).toEqual([drawn.id]);
+    });
+
+    it('should refuse participants without an attempt in progress', async () => {
+      const examResult = await db.insert(examsTable)
+        .values(testExam)
+        .returning()
+        .execute();
+      const userResult = await db.insert(usersTable)
+        .values(testUser)
+        .returning()
+        .execute();
+      const question = await createQuestion({ ...testQuestion, exam_id: examResult[0].id });
+
+      await expect(getQuestionsForParticipant(examResult[0].id, userResult[0].id))
+        .rejects.toThrow(/no attempt in progress/i);
+
+      await db.insert(answersTable)
+        .values({
+          exam_id: examResult[0].id,
+          user_id: userResult[0].id,
+          jawaban: {},
+          waktu_submit: new Date(),
+          is_submitted: true,
+          question_order: [question.id],
+          option_order: {}
+        })
+        .execute();
+
+      await expect(getQuestionsForParticipant(examResult[0].id, userResult[0].id))
+        .rejects.toThrow(/no attempt in progress/i);
+    });
+
     it('should return empty array when no questions exist', async () => {
       // Create prerequisite exam
       const examResult = await db.insert(examsTable)
@@ -346,6 +475,37 @@ describe('Questions Handler', () => {
       expect(questions[0]).not.toHaveProperty('jawaban_benar');
     });
 
+    it('should follow the layout of the participant\'s attempt', async () => {
+      const examResult = await db.insert(examsTable)
+        .values(testExam)
+        .returning()
+        .execute();
+      const userResult = await db.insert(usersTable)
+        .values(testUser)
+        .returning()
+        .execute();
+
+      const first = await createQuestion({ ...testQuestion, exam_id: examResult[0].id });
+      const second = await createQuestion({ ...testQuestion, soal: 'What is 3 + 3?', exam_id: examResult[0].id });
+
+      await db.insert(answersTable)
+        .values({
+          exam_id: examResult[0].id,
+          user_id: userResult[0].id,
+          jawaban: {},
+          waktu_submit: new Date(),
+          question_order: [second.id, first.id],
+          option_order: { [second.id.toString()]: [3, 2, 1, 0] }
+        })
+        .execute();
+
+      const questions = await getQuestionsForParticipant(examResult[0].id, userResult[0].id);
+
+      expect(questions.map(question => question.id)).toEqual([second.id, first.id]);
+      expect(questions[0].pilihan).toEqual(['4', '3', '2', '1']);
+      expect(questions[1].pilihan).toEqual(['1', '2', '3', '4']);
+    });
+
     it('should return empty array when no questions exist', async () => {
       // Create prerequisite exam
       const examResult = await db.insert(examsTable)
@@ -383,5 +543,32 @@ describe('Questions Handler', () => {
       expect(questions[0].exam_id).toEqual(examResult[0].id);
       expect(questions[0].created_at).toBeInstanceOf(Date);
     });
+
+    it('should hide answer keys and shuffle ordering items', async () => {
+      const examResult = await db.insert(examsTable)
+        .values(testExam)
+        .returning()
+        .execute();
+      await createQuestion({
+        exam_id: examResult[0].id,
+        soal: 'Urutkan',
+        tipe: 'ordering',
+        pilihan: ['1', '2', '3', '4', '5', '6']
+      });
+      await createQuestion({
+        exam_id: examResult[0].id,
+        soal: 'Ibu kota Indonesia?',
+        tipe: 'short_answer',
+        kunci_jawaban: { accepted: ['Jakarta'], patterns: [] }
+      });
+
+      const [ordering, shortAnswer] = await getQuestionsForParticipant(examResult[0].id);
+
+      expect(ordering.tipe).toEqual('ordering');
+      expect(ordering.pilihan).not.toEqual(['1', '2', '3', '4', '5', '6']);
+      expect([...ordering.pilihan].sort()).toEqual(['1', '2', '3', '4', '5', '6']);
+      expect(shortAnswer).not.toHaveProperty('kunci_jawaban');
+      expect(shortAnswer).not.toHaveProperty('jawaban_benar');
+    });
   });
-});
\ No newline at end of file
+});
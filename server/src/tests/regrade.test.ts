@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, examsTable, questionsTable, examAssignmentsTable, answersTable } from '../db/schema';
+import { createAnswer, submitExam } from '../handlers/answers';
+import { updateQuestion, deleteQuestion } from '../handlers/questions';
+import { regradeExam, getRegradeLogs } from '../handlers/regrade';
+import { eq } from 'drizzle-orm';
+
+const testExam = {
+  judul_ujian: 'Ujian Regrade',
+  deskripsi: 'Ujian untuk penilaian ulang',
+  tanggal_mulai: new Date(),
+  tanggal_selesai: new Date(Date.now() + 3600000), // 1 hour later
+  durasi: 60,
+  status: 'aktif' as const,
+  kkm: 75
+};
+
+describe('regrade handlers', () => {
+  let adminId: number;
+  let participantId: number;
+  let examId: number;
+  let firstId: number;
+  let secondId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { nama: 'Guru', email: 'guru@test.com', password: 'hashed', role: 'admin' },
+        { nama: 'Siswa', email: 'siswa@test.com', password: 'hashed', role: 'peserta' }
+      ])
+      .returning()
+      .execute();
+    adminId = users[0].id;
+    participantId = users[1].id;
+
+    const exam = await db.insert(examsTable).values(testExam).returning().execute();
+    examId = exam[0].id;
+    await db.insert(examAssignmentsTable).values({ exam_id: examId, user_id: participantId }).execute();
+
+    const questions = await db.insert(questionsTable)
+      .values([
+        { exam_id: examId, soal: '2 + 2 = ?', pilihan: ['3', '4', '5'], jawaban_benar: 'B' },
+        { exam_id: examId, soal: 'Ibu kota Indonesia?', pilihan: ['Bandung', 'Jakarta', 'Surabaya'], jawaban_benar: 'A' }
+      ])
+      .returning()
+      .execute();
+    firstId = questions[0].id;
+    secondId = questions[1].id;
+  });
+
+  afterEach(resetDB);
+
+  const submit = async (jawaban: Record<string, string>) => {
+    const attempt = await createAnswer({ exam_id: examId, jawaban: {} }, participantId);
+    return submitExam({ id: attempt.id, jawaban }, participantId);
+  };
+
+  it('should rescore submitted attempts after a key correction and log the change', async () => {
+    const submitted = await submit({ [firstId.toString()]: 'B', [secondId.toString()]: 'B' });
+    expect(submitted.nilai).toEqual(50);
+
+    await updateQuestion({ id: secondId, jawaban_benar: 'B' });
+    const result = await regradeExam({ examId, alasan: 'Kunci salah' }, adminId);
+
+    expect(result.regradedCount).toEqual(1);
+    expect(result.changedCount).toEqual(1);
+    expect(result.changes[0]).toMatchObject({
+      answer_id: submitted.id,
+      nilai_lama: 50,
+      nilai_baru: 100,
+      poin_lama: 1,
+      poin_baru: 2,
+      alasan: 'Kunci salah',
+      regraded_by: adminId
+    });
+
+    const stored = await db.select().from(answersTable).where(eq(answersTable.id, submitted.id)).execute();
+    expect(stored[0].nilai).toEqual(100);
+    expect(stored[0].status_kelulusan).toEqual('lulus');
+    expect(await getRegradeLogs(examId)).toHaveLength(1);
+  });
+
+  it('should not log attempts whose score did not change', async () => {
+    await submit({ [firstId.toString()]: 'B', [secondId.toString()]: 'A' });
+
+    const result = await regradeExam({ examId }, adminId);
+
+    expect(result.regradedCount).toEqual(1);
+    expect(result.changedCount).toEqual(0);
+    expect(await getRegradeLogs(examId)).toHaveLength(0);
+  });
+
+  it('should leave attempts in progress alone', async () => {
+    await createAnswer({ exam_id: examId, jawaban: {} }, participantId);
+
+    const result = await regradeExam({ examId }, adminId);
+
+    expect(result.regradedCount).toEqual(0);
+  });
+
+  it('should regrade automatically when asked to on update', async () => {
+    await submit({ [firstId.toString()]: 'B', [secondId.toString()]: 'B' });
+
+    await updateQuestion({ id: secondId, jawaban_alternatif: ['B'], regrade: true }, adminId);
+
+    const logs = await getRegradeLogs(examId);
+    expect(logs).toHaveLength(1);
+    expect(logs[0].nilai_baru).toEqual(100);
+    expect(logs[0].alasan).toEqual(`Question ${secondId} updated`);
+  });
+
+  it('should give everyone full points on a voided question', async () => {
+    const submitted = await submit({ [firstId.toString()]: 'A' });
+
+    await updateQuestion({ id: firstId, dibatalkan: true, regrade: true }, adminId);
+
+    const stored = await db.select().from(answersTable).where(eq(answersTable.id, submitted.id)).execute();
+    expect(stored[0].nilai).toEqual(50);
+  });
+
+  it('should regrade without a deleted question', async () => {
+    const submitted = await submit({ [firstId.toString()]: 'B', [secondId.toString()]: 'B' });
+
+    await deleteQuestion(secondId, true, adminId);
+
+    const stored = await db.select().from(answersTable).where(eq(answersTable.id, submitted.id)).execute();
+    expect(stored[0].nilai).toEqual(100);
+    expect(stored[0].poin_maksimal).toEqual(1);
+  });
+
+  it('should reject alternatives that do not fit the question', async () => {
+    await expect(updateQuestion({ id: firstId, jawaban_alternatif: ['D'] })).rejects.toThrow(/existing options/i);
+
+    const essay = await db.insert(questionsTable)
+      .values({ exam_id: examId, tipe: 'essay', soal: 'Jelaskan.', pilihan: [] })
+      .returning()
+      .execute();
+    await expect(updateQuestion({ id: essay[0].id, jawaban_alternatif: ['A'] })).rejects.toThrow(/only supported/i);
+  });
+
+  it('should drop alternatives when the key changes', async () => {
+    await updateQuestion({ id: firstId, jawaban_alternatif: ['C'] });
+
+    const updated = await updateQuestion({ id: firstId, jawaban_benar: 'A' });
+
+    expect(updated.jawaban_alternatif).toBeNull();
+  });
+
+  it('should regrade two exams at the same time', async () => {
+    await submit({ [firstId.toString()]: 'B', [secondId.toString()]: 'B' });
+    const other = await db.insert(examsTable).values({ ...testExam, judul_ujian: 'Ujian Lain' }).returning().execute();
+    const otherQuestion = await db.insert(questionsTable)
+      .values({ exam_id: other[0].id, soal: '3 + 3 = ?', pilihan: ['6', '7'], jawaban_benar: 'B' })
+      .returning()
+      .execute();
+    await db.insert(answersTable)
+      .values({
+        exam_id: other[0].id,
+        user_id: participantId,
+        jawaban: { [otherQuestion[0].id.toString()]: 'A' },
+        waktu_submit: new Date(),
+        is_submitted: true
+      })
+      .execute();
+    await db.update(questionsTable).set({ jawaban_benar: 'A' }).where(eq(questionsTable.id, otherQuestion[0].id)).execute();
+
+    // More regrades than the connection pool holds: each keeps its transaction open while scoring
+    const results = await Promise.all(Array.from({ length: 12 }, (_, i) =>
+      regradeExam({ examId: i % 2 === 0 ? examId : other[0].id }, adminId)
+    ));
+
+    expect(results.every(result => result.regradedCount === 1)).toBe(true);
+    const otherAttempt = await db.select().from(answersTable).where(eq(answersTable.exam_id, other[0].id)).execute();
+    expect(otherAttempt[0].nilai).toEqual(100);
+  });
+
+  it('should reject an unknown exam', async () => {
+    await expect(regradeExam({ examId: 999 }, adminId)).rejects.toThrow(/exam not found/i);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, examsTable } from '../db/schema';
+import { type UserProfile } from '../schema';
+import { createSession, getSessionUser } from '../handlers/auth';
+import { appRouter } from '../index';
+
+const testExam = {
+  judul_ujian: 'Ujian Matematika',
+  deskripsi: 'Ujian matematika semester 1',
+  tanggal_mulai: new Date(),
+  tanggal_selesai: new Date(Date.now() + 3600000), // 1 hour later
+  durasi: 60,
+  status: 'aktif' as const
+};
+
+describe('router access control', () => {
+  let admin: UserProfile;
+  let participant: UserProfile;
+  let examId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { nama: 'Admin', email: 'admin@test.com', password: 'hashed', role: 'admin' },
+        { nama: 'Peserta', email: 'peserta@test.com', password: 'hashed', role: 'peserta' }
+      ])
+      .returning()
+      .execute();
+    [admin, participant] = users.map(({ password, ...profile }) => profile);
+
+    const exam = await db.insert(examsTable).values(testExam).returning().execute();
+    examId = exam[0].id;
+  });
+
+  afterEach(resetDB);
+
+  // A caller with a real session, resolved the way createContext does
+  const callerFor = async (user: UserProfile) => {
+    const { token } = await createSession(user);
+    return appRouter.createCaller({ user: await getSessionUser(token), token, ip: null });
+  };
+
+  const anonymous = () => appRouter.createCaller({ user: null, token: null, ip: null });
+
+  it('should answer public procedures without a session', async () => {
+    const result = await anonymous().healthcheck();
+
+    expect(result.status).toEqual('ok');
+  });
+
+  it('should reject anonymous callers with UNAUTHORIZED', async () => {
+    await expect(anonymous().me()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(anonymous().getAllUsers()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(anonymous().getExamsForParticipant()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject a forged session with UNAUTHORIZED', async () => {
+    const caller = appRouter.createCaller({ user: await getSessionUser('forged-token'), token: 'forged-token', ip: null });
+
+    await expect(caller.me()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject participants on admin procedures with FORBIDDEN', async () => {
+    const caller = await callerFor(participant);
+
+    await expect(caller.getAllUsers()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.createExam({ ...testExam })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteUser({ id: admin.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.exportExamResultsToCSV({ examId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should let admins call admin procedures', async () => {
+    const caller = await callerFor(admin);
+
+    const users = await caller.getAllUsers();
+
+    expect(users.map(user => user.email).sort()).toEqual(['admin@test.com', 'peserta@test.com']);
+  });
+
+  it('should reject admins on participant procedures with FORBIDDEN', async () => {
+    const caller = await callerFor(admin);
+
+    await expect(caller.getExamsForParticipant()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only show participants the exams assigned to them', async () => {
+    const caller = await callerFor(participant);
+
+    await expect(caller.getExamById({ id: examId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await (await callerFor(admin)).getExamById({ id: examId }))?.id).toEqual(examId);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'bun:test';
+import { mean, variance, correlation, cronbachAlpha, quantile, modes, histogram } from '../helpers/statistics';
+
+describe('statistics helpers', () => {
+  it('should compute the mean and population variance', () => {
+    expect(mean([2, 4, 6])).toEqual(4);
+    expect(variance([2, 4, 6])).toBeCloseTo(8 / 3);
+    expect(mean([])).toBeNull();
+    expect(variance([])).toBeNull();
+  });
+
+  it('should correlate paired values', () => {
+    expect(correlation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(correlation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1);
+    expect(correlation([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(correlation([1], [1])).toBeNull();
+  });
+
+  it('should compute Cronbach\'s alpha', () => {
+    const scores = [
+      [1, 1, 1],
+      [1, 1, 0],
+      [1, 0, 0],
+      [0, 0, 0]
+    ];
+
+    expect(cronbachAlpha(scores)).toBeCloseTo(0.75);
+    expect(cronbachAlpha([[1, 1]])).toBeNull();
+    expect(cronbachAlpha([[1, 0], [1, 0]])).toBeNull();
+  });
+
+  it('should interpolate quantiles', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toEqual(2.5);
+    expect(quantile([4, 1, 3, 2], 0.25)).toEqual(1.75);
+    expect(quantile([7], 0.75)).toEqual(7);
+    expect(quantile([], 0.5)).toBeNull();
+  });
+
+  it('should return every mode', () => {
+    expect(modes([3, 1, 3, 2])).toEqual([3]);
+    expect(modes([2, 1, 2, 1])).toEqual([1, 2]);
+    expect(modes([])).toEqual([]);
+  });
+
+  it('should put the maximum into the last bucket', () => {
+    expect(histogram([0, 29, 30, 100], 30, 100)).toEqual([
+      { from: 0, to: 30, count: 2 },
+      { from: 30, to: 60, count: 1 },
+      { from: 60, to: 90, count: 0 },
+      { from: 90, to: 100, count: 1 }
+    ]);
+  });
+});
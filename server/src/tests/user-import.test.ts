@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import ExcelJS from 'exceljs';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, classesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { verifyPassword } from '../helpers/password';
+import { importUsers } from '../handlers/user-import';
+
+const validCSV = [
+  'nama,email,kelas,password',
+  'Budi Santoso,budi@school.id,XII IPA 1,rahasia123',
+  '"Siti, Nur",siti@school.id,XII IPA 2,'
+].join('\n');
+
+describe('importUsers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should import valid rows and generate missing passwords', async () => {
+    const result = await importUsers({ format: 'csv', content: validCSV, dryRun: false, createMissingClasses: true });
+
+    expect(result.dryRun).toBe(false);
+    expect(result.totalRows).toEqual(2);
+    expect(result.importedCount).toEqual(2);
+    expect(result.errorCount).toEqual(0);
+
+    const [budi, siti] = result.rows;
+    expect(budi.row).toEqual(2);
+    expect(budi.status).toEqual('imported');
+    expect(budi.password).toEqual('rahasia123');
+    expect(budi.passwordGenerated).toBe(false);
+    expect(siti.nama).toEqual('Siti, Nur');
+    expect(siti.passwordGenerated).toBe(true);
+    expect(siti.password).toHaveLength(8);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, 'siti@school.id'))
+      .execute();
+    expect(users).toHaveLength(1);
+    expect(users[0].role).toEqual('peserta');
+    expect(users[0].kelas).toBeNull(); // Stored through class_id only
+
+    const classes = await db.select()
+      .from(classesTable)
+      .where(eq(classesTable.id, users[0].class_id!))
+      .execute();
+    expect(classes[0].nama).toEqual('XII IPA 2');
+    expect(users[0].must_change_password).toBe(true);
+    expect(await verifyPassword(siti.password!, users[0].password)).toBe(true);
+  });
+
+  it('should build a credential sheet for imported rows', async () => {
+    const result = await importUsers({ format: 'csv', content: validCSV, dryRun: false, createMissingClasses: true });
+
+    expect(result.credentialSheet).toContain('Budi Santoso');
+    expect(result.credentialSheet).toContain('budi@school.id');
+    expect(result.credentialSheet).toContain('rahasia123');
+    expect(result.credentialSheet).toContain(result.rows[1].password!);
+  });
+
+  it('should not write anything on dry run', async () => {
+    const result = await importUsers({ format: 'csv', content: validCSV, dryRun: true, createMissingClasses: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.rows.every(row => row.status === 'valid')).toBe(true);
+    expect(result.rows.every(row => row.password === null)).toBe(true);
+    expect(result.credentialSheet).toEqual('');
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(0);
+  });
+
+  it('should report per-row errors and import the remaining rows', async () => {
+    await db.insert(usersTable)
+      .values({
+        nama: 'Existing',
+        email: 'existing@school.id',
+        password: 'hash',
+        role: 'peserta'
+      })
+      .execute();
+
+    const csv = [
+      'Nama,Email,Kelas,Password',
+      'Valid Student,valid@school.id,XI IPS 1,',
+      'Bad Email,not-an-email,XI IPS 1,',
+      'Short Password,short@school.id,XI IPS 1,abc',
+      ',noname@school.id,XI IPS 1,',
+      'Existing Again,existing@school.id,XI IPS 1,',
+      'Duplicate,valid@school.id,XI IPS 1,'
+    ].join('\n');
+
+    const result = await importUsers({ format: 'csv', content: csv, dryRun: false, createMissingClasses: true });
+
+    expect(result.importedCount).toEqual(1);
+    expect(result.errorCount).toEqual(5);
+    expect(result.rows[0].status).toEqual('imported');
+    expect(result.rows[1].errors.join()).toMatch(/email/i);
+    expect(result.rows[2].errors.join()).toMatch(/password/i);
+    expect(result.rows[3].errors.join()).toMatch(/nama/i);
+    expect(result.rows[4].errors.join()).toMatch(/already registered/i);
+    expect(result.rows[5].errors.join()).toMatch(/duplicate of row 2/i);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(2); // Existing plus the one valid row
+  });
+
+  it('should compare and store emails in lower case', async () => {
+    await db.insert(usersTable)
+      .values({
+        nama: 'Existing',
+        email: 'Existing@School.id',
+        password: 'hash',
+        role: 'peserta'
+      })
+      .execute();
+
+    const csv = [
+      'nama,email,kelas,password',
+      'Existing Again,EXISTING@school.id,XI IPS 1,',
+      'New Student,New@School.id,XI IPS 1,'
+    ].join('\n');
+
+    const result = await importUsers({ format: 'csv', content: csv, dryRun: false, createMissingClasses: true });
+
+    expect(result.rows[0].errors.join()).toMatch(/already registered/i);
+    expect(result.rows[1].status).toEqual('imported');
+    expect(result.rows[1].email).toEqual('new@school.id');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, 'new@school.id'))
+      .execute();
+    expect(users).toHaveLength(1);
+  });
+
+  it('should skip blank lines', async () => {
+    const csv = 'nama,email,kelas\n\nAni,ani@school.id,X 1\n,,\n';
+
+    const result = await importUsers({ format: 'csv', content: csv, dryRun: true, createMissingClasses: true });
+
+    expect(result.totalRows).toEqual(1);
+    expect(result.rows[0].row).toEqual(3);
+  });
+
+  it('should reject a file without required columns', async () => {
+    await expect(importUsers({ format: 'csv', content: 'nama,email\nAni,ani@school.id', dryRun: false, createMissingClasses: true }))
+      .rejects.toThrow(/missing required column: kelas/i);
+  });
+
+  it('should import from an XLSX workbook', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Peserta');
+    sheet.addRow(['nama', 'email', 'kelas', 'password']);
+    sheet.addRow(['Dewi', 'dewi@school.id', 'X MIPA 3', 'password123']);
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    const result = await importUsers({
+      format: 'xlsx',
+      content: Buffer.from(buffer).toString('base64'),
+      dryRun: false,
+      createMissingClasses: true
+    });
+
+    expect(result.importedCount).toEqual(1);
+    expect(result.rows[0].kelas).toEqual('X MIPA 3');
+    expect(result.rows[0].status).toEqual('imported');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, 'dewi@school.id'))
+      .execute();
+    expect(users).toHaveLength(1);
+  });
+
+  it('should match kelas against existing classes', async () => {
+    await db.insert(classesTable).values({ nama: 'XII IPA 1' }).execute();
+    const csv = [
+      'nama,email,kelas',
+      'Andi,andi@school.id,12 ipa-1',
+      'Rina,rina@school.id,XII IPA 9'
+    ].join('\n');
+
+    const result = await importUsers({ format: 'csv', content: csv, dryRun: false, createMissingClasses: false });
+
+    expect(result.rows[0].status).toEqual('imported');
+    expect(result.rows[0].kelas).toEqual('XII IPA 1');
+    expect(result.rows[1].status).toEqual('error');
+    expect(result.rows[1].errors.join()).toMatch(/unknown class XII IPA 9/i);
+
+    const classes = await db.select().from(classesTable).execute();
+    expect(classes).toHaveLength(1); // Nothing created without createMissingClasses
+  });
+
+  it('should create each missing class once', async () => {
+    const csv = [
+      'nama,email,kelas',
+      'Andi,andi@school.id,X 1',
+      'Rina,rina@school.id,x-1'
+    ].join('\n');
+
+    await importUsers({ format: 'csv', content: csv, dryRun: false, createMissingClasses: true });
+
+    const classes = await db.select().from(classesTable).execute();
+    expect(classes).toHaveLength(1);
+    expect(classes[0].nama).toEqual('X 1');
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users.every(user => user.class_id === classes[0].id)).toBe(true);
+  });
+});
@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type UpdateUserInput, type ResetPasswordInput } from '../schema';
+import { usersTable, classesTable } from '../db/schema';
+import { createUserInputSchema, updateUserInputSchema, type CreateUserInput, type UpdateUserInput, type ResetPasswordInput } from '../schema';
 import {
   createUser,
   getAllUsers,
@@ -10,8 +10,10 @@ import {
   getUserById,
   updateUser,
   deleteUser,
-  resetUserPassword
+  resetUserPassword,
+  changeOwnPassword
 } from '../handlers/users';
+import { verifyPassword } from '../helpers/password';
 import { eq } from 'drizzle-orm';
 
 // Test input data
@@ -20,7 +22,7 @@ const testAdminInput: CreateUserInput = {
   email: 'admin@test.com',
   password: 'password123',
   role: 'admin',
-  kelas: null
+  class_id: null
 };
 
 const testPesertaInput: CreateUserInput = {
@@ -28,7 +30,15 @@ const testPesertaInput: CreateUserInput = {
   email: 'peserta@test.com',
   password: 'password123',
   role: 'peserta',
-  kelas: 'XII IPA 1'
+  class_id: null
+};
+
+const createTestClass = async (nama: string): Promise<number> => {
+  const result = await db.insert(classesTable)
+    .values({ nama })
+    .returning()
+    .execute();
+  return result[0].id;
 };
 
 describe('User Handlers', () => {
@@ -41,20 +51,23 @@ describe('User Handlers', () => {
 
       expect(result.nama).toEqual('Admin User');
       expect(result.email).toEqual('admin@test.com');
-      expect(result.password).not.toEqual('password123'); // Should be hashed
+      expect('password' in result).toBe(false); // Hash never leaves the server
       expect(result.role).toEqual('admin');
       expect(result.kelas).toBeNull();
+      expect(result.must_change_password).toBe(true); // Admin-chosen password
       expect(result.id).toBeDefined();
       expect(result.created_at).toBeInstanceOf(Date);
     });
 
     it('should create a peserta user', async () => {
-      const result = await createUser(testPesertaInput);
+      const classId = await createTestClass('XII IPA 1');
+      const result = await createUser({ ...testPesertaInput, class_id: classId });
 
       expect(result.nama).toEqual('Peserta User');
       expect(result.email).toEqual('peserta@test.com');
-      expect(result.password).not.toEqual('password123'); // Should be hashed
+      expect('password' in result).toBe(false); // Hash never leaves the server
       expect(result.role).toEqual('peserta');
+      expect(result.class_id).toEqual(classId);
       expect(result.kelas).toEqual('XII IPA 1');
       expect(result.id).toBeDefined();
       expect(result.created_at).toBeInstanceOf(Date);
@@ -73,6 +86,15 @@ describe('User Handlers', () => {
       expect(users[0].email).toEqual('admin@test.com');
       expect(users[0].role).toEqual('admin');
       expect(users[0].created_at).toBeInstanceOf(Date);
+      expect(await verifyPassword('password123', users[0].password)).toBe(true); // Same hash format login verifies
+    });
+
+    it('should store the email in lower case', async () => {
+      const result = await createUser(createUserInputSchema.parse({ ...testAdminInput, email: 'Admin@Test.COM' }));
+
+      expect(result.email).toEqual('admin@test.com');
+      const updated = await updateUser(updateUserInputSchema.parse({ id: result.id, email: 'New.Admin@Test.com' }));
+      expect(updated.email).toEqual('new.admin@test.com');
     });
 
     it('should handle duplicate email error', async () => {
@@ -100,7 +122,7 @@ describe('User Handlers', () => {
       expect(result.some(u => u.email === 'peserta@test.com')).toBe(true);
       result.forEach(user => {
         expect(user.created_at).toBeInstanceOf(Date);
-        expect(user.password).toBeDefined(); // Password included for schema compliance
+        expect('password' in user).toBe(false); // Hash never leaves the server
       });
     });
   });
@@ -199,7 +221,10 @@ describe('User Handlers', () => {
     });
 
     it('should update user password', async () => {
-      const originalUser = await getUserById(userId);
+      const originalUser = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
       const updateInput: UpdateUserInput = {
         id: userId,
         password: 'newpassword123'
@@ -207,27 +232,49 @@ describe('User Handlers', () => {
 
       const result = await updateUser(updateInput);
 
-      expect(result.password).not.toEqual('newpassword123'); // Should be hashed
-      expect(result.password).not.toEqual(originalUser!.password); // Should be different from original
+      expect('password' in result).toBe(false);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      expect(users[0].password).not.toEqual('newpassword123'); // Should be hashed
+      expect(users[0].password).not.toEqual(originalUser[0].password); // Should be different from original
     });
 
-    it('should update user kelas', async () => {
+    it('should update user class', async () => {
+      const classId = await createTestClass('XI IPS 2');
       const updateInput: UpdateUserInput = {
         id: userId,
-        kelas: 'XI IPS 2'
+        class_id: classId
       };
 
       const result = await updateUser(updateInput);
 
+      expect(result.class_id).toEqual(classId);
       expect(result.kelas).toEqual('XI IPS 2');
     });
 
+    it('should remove user from class', async () => {
+      await updateUser({ id: userId, class_id: await createTestClass('XI IPS 2') });
+
+      const result = await updateUser({ id: userId, class_id: null });
+
+      expect(result.class_id).toBeNull();
+      expect(result.kelas).toBeNull();
+    });
+
+    it('should reject an unknown class', async () => {
+      await expect(updateUser({ id: userId, class_id: 999 }))
+        .rejects.toThrow(/class not found/i);
+    });
+
     it('should update multiple fields', async () => {
       const updateInput: UpdateUserInput = {
         id: userId,
         nama: 'New Name',
         email: 'new@test.com',
-        kelas: 'X IPA 3'
+        class_id: await createTestClass('X IPA 3')
       };
 
       const result = await updateUser(updateInput);
@@ -284,7 +331,12 @@ describe('User Handlers', () => {
     beforeEach(async () => {
       const user = await createUser(testAdminInput);
       userId = user.id;
-      originalPassword = user.password;
+
+      const stored = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      originalPassword = stored[0].password;
     });
 
     it('should reset user password', async () => {
@@ -295,8 +347,8 @@ describe('User Handlers', () => {
 
       const result = await resetUserPassword(resetInput);
 
-      expect(result.password).not.toEqual('resetpassword123'); // Should be hashed
-      expect(result.password).not.toEqual(originalPassword); // Should be different from original
+      expect('password' in result).toBe(false); // Hash never leaves the server
+      expect(result.must_change_password).toBe(true);
       expect(result.id).toEqual(userId);
       expect(result.nama).toEqual('Admin User'); // Other fields unchanged
       expect(result.created_at).toBeInstanceOf(Date);
@@ -317,6 +369,7 @@ describe('User Handlers', () => {
 
       expect(user[0].password).not.toEqual(originalPassword);
       expect(user[0].password).not.toEqual('resetpassword123'); // Should be hashed
+      expect(await verifyPassword('resetpassword123', user[0].password)).toBe(true);
     });
 
     it('should throw error for non-existent user', async () => {
@@ -329,4 +382,69 @@ describe('User Handlers', () => {
         .rejects.toThrow('User not found');
     });
   });
-});
\ No newline at end of file
+
+  describe('changeOwnPassword', () => {
+    let userId: number;
+
+    beforeEach(async () => {
+      const user = await createUser(testPesertaInput);
+      userId = user.id;
+    });
+
+    it('should change the password and clear the forced change flag', async () => {
+      const result = await changeOwnPassword(userId, {
+        currentPassword: 'password123',
+        newPassword: 'mynewpassword'
+      });
+
+      expect(result.id).toEqual(userId);
+      expect(result.must_change_password).toBe(false);
+      expect('password' in result).toBe(false);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      expect(await verifyPassword('mynewpassword', users[0].password)).toBe(true);
+      expect(await verifyPassword('password123', users[0].password)).toBe(false);
+    });
+
+    it('should reject an incorrect current password', async () => {
+      await expect(changeOwnPassword(userId, {
+        currentPassword: 'wrongpassword',
+        newPassword: 'mynewpassword'
+      })).rejects.toThrow(/current password is incorrect/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+      expect(users[0].must_change_password).toBe(true);
+    });
+
+    it('should reject reusing the current password', async () => {
+      await expect(changeOwnPassword(userId, {
+        currentPassword: 'password123',
+        newPassword: 'password123'
+      })).rejects.toThrow(/must be different/i);
+    });
+
+    it('should flag the user again after an admin reset', async () => {
+      await changeOwnPassword(userId, {
+        currentPassword: 'password123',
+        newPassword: 'mynewpassword'
+      });
+
+      const result = await resetUserPassword({ id: userId, newPassword: 'adminchosen' });
+
+      expect(result.must_change_password).toBe(true);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(changeOwnPassword(999, {
+        currentPassword: 'password123',
+        newPassword: 'mynewpassword'
+      })).rejects.toThrow(/user not found/i);
+    });
+  });
+});